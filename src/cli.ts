@@ -0,0 +1,324 @@
+#!/usr/bin/env node
+import { existsSync } from 'fs';
+import { resolve as absolute } from 'path';
+import { inspect } from 'util';
+import { isDefined, isFunc, isObj, isUndefined } from '@megaorm/test';
+import { Config, ConfigError } from './index';
+import { clone, importModule } from './utils';
+
+/**
+ * The commands of the CLI.
+ *
+ * - `print`: Prints the loaded configuration, with secrets redacted.
+ * - `validate`: Loads the configuration, running the registered validators, also on the default config.
+ * - `root`: Prints the project root directory.
+ * - `which`: Prints the config file that would be loaded, if not loaded from sources.
+ * - `init`: Writes a starter config file.
+ */
+type Command = 'print' | 'validate' | 'root' | 'which' | 'init';
+
+/**
+ * The parsed command line arguments.
+ */
+interface Options {
+  /**
+   * The command to run, `undefined` to show the help.
+   */
+  command?: Command;
+
+  /**
+   * The path to a module exporting a `Config` subclass.
+   */
+  class?: string;
+
+  /**
+   * The output format: `text` for humans or `json` for machines.
+   */
+  format: 'text' | 'json';
+
+  /**
+   * Whether `init` overwrites an existing config file.
+   */
+  force: boolean;
+}
+
+/**
+ * The output of a command, in both formats.
+ */
+interface Result {
+  /**
+   * The output in the `text` format.
+   */
+  text: string;
+
+  /**
+   * The value printed as JSON in the `json` format.
+   */
+  json: unknown;
+}
+
+/**
+ * The help of the CLI.
+ */
+const USAGE = `Usage: megaorm-config <command> [options]
+
+Commands:
+  print      Print the loaded config, with secrets redacted
+  validate   Load the config and run the registered validators
+  root       Print the project root directory
+  which      Print the config file that would be loaded
+  init       Write a starter config file
+
+Options:
+  --class <path>   A module exporting a Config subclass
+  --format <type>  The output format: text (default) or json
+  --force          Overwrite an existing config file with init
+  --help           Show this help
+`;
+
+/**
+ * The commands that use the config class given with `--class`.
+ */
+const CLASS_COMMANDS: Array<Command> = ['print', 'validate', 'which', 'init'];
+
+/**
+ * Parses the command line arguments.
+ *
+ * @param argv The command line arguments, without the node and script paths.
+ * @returns The parsed options.
+ * @throws `ConfigError` if an argument is unknown or invalid.
+ */
+export function parse(argv: Array<string>): Options {
+  const options: Options = { format: 'text', force: false };
+  const args = argv.slice();
+
+  // Reads the value of an option, either `--name value` or `--name=value`
+  const value = (arg: string, inline: string | undefined): string => {
+    const value = isDefined(inline) ? inline : args.shift();
+
+    if (isUndefined(value) || value === '') {
+      throw new ConfigError(`Missing value for ${arg}`);
+    }
+
+    return value;
+  };
+
+  while (args.length > 0) {
+    const arg = args.shift();
+    const equals = arg.startsWith('--') ? arg.indexOf('=') : -1;
+    const name = equals === -1 ? arg : arg.slice(0, equals);
+    const inline = equals === -1 ? undefined : arg.slice(equals + 1);
+
+    if (name === '--help' || name === '-h') {
+      return { ...options, command: undefined };
+    }
+
+    if (name === '--class') {
+      options.class = value(name, inline);
+      continue;
+    }
+
+    if (name === '--format') {
+      const format = value(name, inline);
+
+      if (format !== 'text' && format !== 'json') {
+        throw new ConfigError(`Invalid format: ${format}`);
+      }
+
+      options.format = format;
+      continue;
+    }
+
+    if (name === '--force') {
+      options.force = true;
+      continue;
+    }
+
+    if (name.startsWith('-')) throw new ConfigError(`Unknown option: ${arg}`);
+
+    if (isDefined(options.command)) {
+      throw new ConfigError(`Unexpected argument: ${arg}`);
+    }
+
+    if (!['print', 'validate', 'root', 'which', 'init'].includes(name)) {
+      throw new ConfigError(`Unknown command: ${name}`);
+    }
+
+    options.command = name as Command;
+  }
+
+  return options;
+}
+
+/**
+ * Checks whether a value is a `Config` class.
+ *
+ * Classes are matched by their methods, so a subclass of another copy of this package is accepted.
+ *
+ * @param value The value to check.
+ * @returns `true` if the value is a `Config` class.
+ */
+function isConfig(value: any): value is typeof Config {
+  return isFunc(value) && isFunc(value.load) && isFunc(value.resolveSync);
+}
+
+/**
+ * Loads the `Config` subclass exported by a module.
+ *
+ * - The module can export the class itself, as `default`, or as any named export.
+ * - The path is resolved from the working directory.
+ *
+ * @param path The path to the module.
+ * @returns A Promise that resolves with the config class.
+ * @throws `ConfigError` if the module does not export a config class.
+ */
+function load(path: string): Promise<typeof Config> {
+  const file = absolute(path);
+
+  return new Promise((resolve) => resolve(require(file)))
+    .catch((error) => {
+      if (error.code === 'ERR_REQUIRE_ESM') return importModule(file);
+      throw error;
+    })
+    .then((module) => {
+      const exported = [module].concat(
+        isObj(module) ? Object.values(module) : []
+      );
+      const config = exported.find(isConfig);
+
+      if (isUndefined(config)) {
+        throw new ConfigError(`No Config class exported by: ${file}`);
+      }
+
+      return config;
+    });
+}
+
+/**
+ * Runs a command with the given config class.
+ *
+ * @param command The command to run.
+ * @param config The config class.
+ * @param options The parsed options.
+ * @returns A Promise that resolves with the output of the command.
+ */
+function execute(
+  command: Command,
+  config: typeof Config,
+  options: Options
+): Promise<Result> {
+  if (command === 'root') {
+    return new Promise((resolve) => {
+      const root = config.resolveSync();
+      resolve({ text: root, json: { root } });
+    });
+  }
+
+  if (command === 'which') {
+    return new Promise((resolve) => {
+      const file = config.which();
+
+      // Configs loaded from sources have no config file
+      if (isUndefined(file)) {
+        const text = 'No config file, the config is loaded from sources';
+        return resolve({ text, json: { file: null } });
+      }
+
+      resolve({ text: file, json: { file } });
+    });
+  }
+
+  if (command === 'init') {
+    return config.init({ force: options.force }).then((file) => ({
+      text: `Created ${file}`,
+      json: { file },
+    }));
+  }
+
+  return config.load().then((loaded) => {
+    // Secrets are redacted by the loaded config itself when it's inspected or serialized
+    if (command === 'print') {
+      return { text: inspect(loaded, { depth: null }), json: loaded };
+    }
+
+    const file = config.which();
+
+    // Configs loaded from sources have no config file
+    if (isUndefined(file)) {
+      return { text: 'Valid config', json: { valid: true } };
+    }
+
+    if (existsSync(file)) {
+      return { text: `Valid config: ${file}`, json: { valid: true, file } };
+    }
+
+    // The default config is loaded without the validators if the file is missing
+    return Promise.resolve(config.validate(clone(loaded))).then(() => ({
+      text: `Valid default config, no config file found at: ${file}`,
+      json: { valid: true, file: null, default: true },
+    }));
+  });
+}
+
+/**
+ * Runs the CLI.
+ *
+ * - Results are written to stdout, and errors to stderr in the `text` format.
+ * - In the `json` format, results and errors are written to stdout as JSON.
+ *
+ * @param argv The command line arguments, without the node and script paths.
+ * @returns A Promise that resolves with the exit code: `0` on success, `1` on failure and `2` on usage errors.
+ */
+export function run(argv: Array<string>): Promise<number> {
+  let options: Options;
+
+  try {
+    options = parse(argv);
+  } catch (error) {
+    process.stderr.write(`${error.message}\n\n${USAGE}`);
+    return Promise.resolve(2);
+  }
+
+  const { command, format } = options;
+
+  if (isUndefined(command)) {
+    process.stdout.write(USAGE);
+    return Promise.resolve(0);
+  }
+
+  if (isUndefined(options.class) && CLASS_COMMANDS.includes(command)) {
+    process.stderr.write(`The ${command} command requires --class\n\n${USAGE}`);
+    return Promise.resolve(2);
+  }
+
+  const config: Promise<typeof Config> = isUndefined(options.class)
+    ? Promise.resolve(Config)
+    : load(options.class);
+
+  return config
+    .then((config) => execute(command, config, options))
+    .then((result) => {
+      process.stdout.write(
+        format === 'json'
+          ? `${JSON.stringify(result.json, null, 2)}\n`
+          : `${result.text}\n`
+      );
+
+      return 0;
+    })
+    .catch((error) => {
+      if (format === 'json') {
+        process.stdout.write(
+          `${JSON.stringify({ error: error.message }, null, 2)}\n`
+        );
+      } else {
+        process.stderr.write(`Error: ${error.message}\n`);
+      }
+
+      return 1;
+    });
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2)).then((code) => (process.exitCode = code));
+}
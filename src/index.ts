@@ -1,14 +1,56 @@
 import * as fs from 'fs';
-import { dirname, extname, join, parse } from 'path';
+import { EventEmitter } from 'events';
+import {
+  basename,
+  dirname,
+  extname,
+  join,
+  parse,
+  resolve as absolute,
+} from 'path';
+import { inspect } from 'util';
 import {
   isArr,
   isArrOfFunc,
   isArrOfStr,
   isDefined,
   isFunc,
+  isObj,
   isStr,
   isUndefined,
 } from '@megaorm/test';
+import {
+  ArrayMerge,
+  chain,
+  clone,
+  compile,
+  deepFreeze,
+  frame,
+  importModule,
+  isPlain,
+  isPromise,
+  merge,
+  ParseError,
+  requireFresh,
+  unwrap,
+} from './utils';
+import { parse as parseJSON } from './json5';
+import { Schema, validate } from './schema';
+import {
+  changes,
+  foreign,
+  leaves,
+  line,
+  sources,
+  Source,
+  Trace,
+} from './provenance';
+import { conceal, protect, redact } from './secrets';
+import { parse as parseTOML } from './toml';
+import { parse as parseYAML } from './yaml';
+
+export type { Source } from './provenance';
+export type { Rule, Schema, SchemaType } from './schema';
 
 /**
  * Error class for handling configuration-related errors.
@@ -22,15 +64,641 @@ export class ConfigError extends Error {}
  * and returns the modified configuration. Validators are expected to throw an
  * error if the configuration is invalid.
  *
+ * Validators can also be asynchronous and return a promise of the modified configuration.
+ *
  * @param config The configuration object to validate or modify.
  * @returns The modified configuration object.
  */
-type Validator = (config: any) => any;
+type Validator = (config: any) => any | Promise<any>;
+
+/**
+ * A function transpiling the source code of a TypeScript config file to CommonJS.
+ *
+ * @param source The TypeScript source code.
+ * @param path The path to the TypeScript config file.
+ * @returns The transpiled CommonJS code.
+ */
+type Transpiler = (source: string, path: string) => string;
+
+/**
+ * The stage of the loading process where an error happened.
+ *
+ * - `resolve`: Resolving the config file path, its root or its loader.
+ * - `read`: Reading or evaluating the config file.
+ * - `parse`: Parsing the config file, for syntax errors.
+ * - `validate`: Running the validators and the `afterValidate` hooks.
+ */
+type Stage = 'resolve' | 'read' | 'parse' | 'validate';
+
+/**
+ * The static properties holding the state of a config class, never inherited by subclasses.
+ */
+type State =
+  | 'config'
+  | 'loaded'
+  | 'validators'
+  | 'hooks'
+  | 'loading'
+  | 'reloading'
+  | 'emitter'
+  | 'watchers'
+  | 'timer'
+  | 'resolved'
+  | 'provenance';
+
+/**
+ * The lifecycle hooks of the loading process.
+ */
+interface Hooks {
+  /**
+   * Called before a config file is read, it can be asynchronous.
+   *
+   * @param path The path to the config file.
+   * @param format The format of the config file, e.g. `JSON` or `JS`.
+   */
+  beforeLoad: (path: string, format: string) => void | Promise<void>;
+
+  /**
+   * Called with the validated configuration before it's cached, it can be asynchronous.
+   *
+   * @param config The validated configuration.
+   * @returns The configuration to cache, or `undefined` to keep the given one.
+   */
+  afterValidate: (config: any) => any | Promise<any>;
+
+  /**
+   * Called when loading a config file fails.
+   *
+   * @param error The error the loading process rejects with.
+   * @param stage The stage of the loading process where the error happened.
+   */
+  onError: (error: ConfigError, stage: Stage) => void;
+
+  /**
+   * Called after the configuration is reloaded.
+   *
+   * @param previous The previously cached configuration.
+   * @param next The reloaded configuration.
+   */
+  onReload: (previous: any, next: any) => void;
+}
+
+/**
+ * How the default configuration is used.
+ *
+ * - `fallback`: The default configuration is used only if the config file is missing.
+ * - `merge`: The loaded config file is also deep-merged over the default configuration.
+ */
+type DefaultMode = 'fallback' | 'merge';
+
+/**
+ * A strategy used to find the project root directory.
+ *
+ * - `env`: The directory set in the `MEGA_ROOT` environment variable, or the one named by `variable`.
+ * - `workspace`: The closest parent directory whose `package.json` declares `workspaces`.
+ * - `markers`: The closest parent directory containing one of the `markers`, `node_modules` by default.
+ * - A function receiving the working directory and returning the root, or `undefined` to try the next strategy.
+ */
+type RootStrategy =
+  | 'env'
+  | 'workspace'
+  | 'markers'
+  | ((cwd: string) => string | undefined);
+
+/**
+ * The file system checks used to find the project root, either synchronous or asynchronous.
+ */
+interface Probe {
+  /**
+   * Checks whether a path exists.
+   */
+  exists: (path: string) => boolean | Promise<boolean>;
+
+  /**
+   * Reads a file, `undefined` if it can't be read.
+   */
+  read: (path: string) => string | undefined | Promise<string | undefined>;
+}
+
+/**
+ * The options of `init`.
+ */
+interface InitOptions {
+  /**
+   * The format of the starter config, inferred from the extension of the `file` by default.
+   *
+   * - `js`: A JavaScript module with a comment above each field.
+   * - `json`: Pretty JSON, also accepted by YAML and rc files.
+   */
+  format?: 'js' | 'json';
+
+  /**
+   * Whether to overwrite an existing config file, `false` by default.
+   */
+  force?: boolean;
+}
+
+/**
+ * A source of configuration values, merged with the other `sources` of a config class.
+ *
+ * @example
+ * const remote: ConfigSource = {
+ *   name: 'remote',
+ *   load: () => fetch('https://config.example.com/app.json').then((res) => res.json()),
+ * };
+ */
+export interface ConfigSource {
+  /**
+   * The name of the source, used in error messages and provenance.
+   */
+  name: string;
+
+  /**
+   * Loads the values of the source, which can be asynchronous.
+   *
+   * @param config The configuration merged from the previous sources, e.g. to match its keys.
+   * @returns The values to merge, or `undefined` if the source has none.
+   */
+  load(config: Record<string, unknown>): unknown | Promise<unknown>;
+
+  /**
+   * Starts watching the source for changes, used by the watch mode.
+   *
+   * @param listener The function to call when the source changes.
+   * @returns A function that stops watching.
+   */
+  watch?(listener: () => void): () => void;
+
+  /**
+   * Describes where the loaded values come from, used by `explain`.
+   *
+   * @returns The source recorded in the provenance, `{ type: 'source', name }` if omitted.
+   */
+  origin?(): Source;
+}
+
+/**
+ * The dot-separated key paths of a configuration shape, e.g. `paths` or `paths.models`.
+ * Arrays and functions are treated as leaves.
+ *
+ * @template T The configuration shape.
+ */
+type Path<T> = T extends object
+  ? {
+      [K in keyof T & string]: NonNullable<T[K]> extends
+        | Array<unknown>
+        | Function
+        ? K
+        : NonNullable<T[K]> extends object
+        ? K | `${K}.${Path<NonNullable<T[K]>>}`
+        : K;
+    }[keyof T & string]
+  : never;
+
+/**
+ * The type of the value at a key path of a configuration shape.
+ *
+ * @template T The configuration shape.
+ * @template P The key path.
+ */
+type PathValue<T, P extends string> = P extends `${infer K}.${infer R}`
+  ? K extends keyof T
+    ? PathValue<NonNullable<T[K]>, R>
+    : unknown
+  : P extends keyof T
+  ? T[P]
+  : unknown;
+
+/**
+ * The configuration shape declared by a config class, `unknown` if none is declared.
+ *
+ * @template C The config class.
+ */
+type Shape<C> = C extends { shape?: infer S } ? S : unknown;
+
+/**
+ * The key paths accepted by the accessors of a config class, any string if no shape is declared.
+ *
+ * @template C The config class.
+ */
+type KeyPath<C> = unknown extends Shape<C> ? string : Path<Shape<C>>;
+
+/**
+ * The JavaScript config files loaded so far, with the loader used the first time.
+ * Reading them again bypasses the `require` and `import()` caches so changes on disk are picked up.
+ */
+const modules = new Map<string, 'require' | 'import'>();
+
+/**
+ * The local files included by each JavaScript or TypeScript config file, e.g. with `require('./db')`.
+ * They are watched along with the config file. Imports of ES modules are not tracked.
+ */
+const includes = new Map<string, Array<string>>();
+
+/**
+ * Lists the local files required by a CommonJS module, recursively, ignoring packages.
+ *
+ * @param module The module loaded by `require()`.
+ * @param files The files found so far.
+ * @returns The paths of the required files.
+ */
+function children(
+  module: NodeModule | undefined,
+  files: Set<string> = new Set()
+): Set<string> {
+  if (isUndefined(module)) return files;
+
+  module.children
+    .filter(({ filename }) => !/[\\/]node_modules[\\/]/.test(filename))
+    .filter(({ filename }) => !files.has(filename))
+    .forEach((child) => children(child, files.add(child.filename)));
+
+  return files;
+}
+
+/**
+ * Records the local files evaluated along with a config file as its includes.
+ *
+ * @param path The path to the config file.
+ * @param evaluated The modules evaluated by `compile()`, keyed by path.
+ */
+function record(path: string, evaluated: Map<string, unknown>): void {
+  includes.set(
+    path,
+    Array.from(evaluated.keys()).filter((file) => file !== path)
+  );
+}
+
+/**
+ * Requires a CommonJS config file the first time, and records its local imports.
+ *
+ * @param path The path to the JavaScript config file.
+ * @returns The module exports.
+ */
+function requireFirst(path: string): unknown {
+  const module = require(path);
+
+  includes.set(path, Array.from(children(require.cache[path])));
+  modules.set(path, 'require');
+  return module;
+}
+
+/**
+ * Evaluates a CommonJS config file again, and records its local imports.
+ *
+ * @param path The path to the JavaScript config file.
+ * @returns The module exports.
+ */
+function requireAgain(path: string): unknown {
+  const evaluated = new Map<string, unknown>();
+  const module = requireFresh(path, evaluated);
+
+  record(path, evaluated);
+  return module;
+}
+
+/**
+ * Creates a watcher for each target, all or none.
+ *
+ * If a watcher cannot be created, the ones already created are closed.
+ *
+ * @param targets The things to watch.
+ * @param create Creates the watcher of a target.
+ * @returns The watchers.
+ * @throws `ConfigError` if a watcher cannot be created.
+ */
+function open<T, W extends { close(): void }>(
+  targets: Array<T>,
+  create: (target: T) => W
+): Array<W> {
+  const watchers: Array<W> = [];
+
+  try {
+    targets.forEach((target) => watchers.push(create(target)));
+    return watchers;
+  } catch (error) {
+    watchers.forEach((watcher) => watcher.close());
+    throw new ConfigError(`Cannot watch the config: ${error.message}`);
+  }
+}
+
+/**
+ * Loads a JavaScript config file.
+ *
+ * - The first time, `.js` and `.cjs` files are loaded using `require()`, or `import()` if they are ES modules.
+ * - The first time, `.mjs` files are loaded using `import()`.
+ * - Afterwards, CommonJS files and their local relative imports are read from disk again,
+ *   and ES modules are imported again.
+ *
+ * @param path The path to the JavaScript config file.
+ * @returns A Promise that resolves with the loaded module.
+ */
+function loadModule(path: string): Promise<unknown> {
+  const loader = modules.get(path);
+
+  if (loader === 'require') {
+    return new Promise((resolve) => resolve(requireAgain(path)));
+  }
+
+  const load = (): Promise<unknown> =>
+    importModule(path, isDefined(loader)).then((module) => {
+      modules.set(path, 'import');
+      return module;
+    });
+
+  if (loader === 'import' || extname(path).toLowerCase() === '.mjs') {
+    return load();
+  }
+
+  return new Promise((resolve) => resolve(requireFirst(path))).catch(
+    (error) => {
+      if (error.code === 'ERR_REQUIRE_ESM') return load();
+      throw error;
+    }
+  );
+}
+
+/**
+ * Loads a JavaScript config file synchronously.
+ *
+ * - CommonJS files are loaded using `require()` the first time, then read from disk again.
+ * - ES modules can't be loaded synchronously.
+ *
+ * @param path The path to the JavaScript config file.
+ * @returns The loaded module.
+ * @throws `ConfigError` if the file is an ES module.
+ */
+function loadModuleSync(path: string): unknown {
+  const loader = modules.get(path);
+  const esm = () =>
+    new ConfigError(`Cannot load ES module synchronously: ${path}`);
+
+  if (loader === 'require') return requireAgain(path);
+  if (loader === 'import' || extname(path).toLowerCase() === '.mjs') {
+    throw esm();
+  }
+
+  try {
+    return requireFirst(path);
+  } catch (error) {
+    if (['ERR_REQUIRE_ESM', 'ERR_REQUIRE_ASYNC_MODULE'].includes(error.code)) {
+      throw esm();
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Finds the first value of a configuration that can't be written to a config file as JSON.
+ *
+ * Plain objects, arrays, strings, finite numbers, booleans and `null` can be written.
+ * Class instances, functions, dates and regular expressions can't, `JSON.stringify` would alter or drop them.
+ *
+ * @param value The value to check.
+ * @param path The key path of the value, empty for the root configuration.
+ * @returns The key path and kind of the first unsupported value, or `undefined` if all values can be written.
+ */
+function unwritable(
+  value: unknown,
+  path: Array<string> = []
+): { key: string; kind: string } | undefined {
+  if (isArr(value) || isPlain(value)) {
+    for (const key of Object.keys(value)) {
+      const found = unwritable(value[key], [...path, key]);
+      if (isDefined(found)) return found;
+    }
+
+    return undefined;
+  }
+
+  if (value === null || isUndefined(value)) return undefined;
+  if (typeof value === 'string' || typeof value === 'boolean') return undefined;
+  if (typeof value === 'number' && Number.isFinite(value)) return undefined;
+
+  const name = isObj(value)
+    ? Object.getPrototypeOf(value)?.constructor?.name
+    : undefined;
+  const kind = isStr(name) ? `${name} instance` : `${typeof value} value`;
+
+  return {
+    key: path.join('.'),
+    kind: typeof value === 'number' ? String(value) : kind,
+  };
+}
+
+/**
+ * Restores the values of a configuration from the content of its config file.
+ *
+ * Each key takes its value from the file, or is removed if the file doesn't set it.
+ * Objects left empty by removed keys are removed too.
+ *
+ * @param config The configuration.
+ * @param keys The key paths of the leaves to restore.
+ * @param original The configuration read from the config file, `undefined` if it doesn't exist.
+ * @returns A copy of the configuration with the restored values.
+ */
+function restore(
+  config: Record<string, unknown>,
+  keys: Array<string>,
+  original: unknown
+): Record<string, unknown> {
+  const result = clone(config);
+
+  const at = (value: unknown, path: Array<string>) =>
+    path.reduce(
+      (value, key) => (isPlain(value) ? value[key] : undefined),
+      value
+    );
+
+  keys.forEach((key) => {
+    const path = key.split('.');
+    const last = path.pop();
+    const parent = at(result, path);
+    const source = at(original, path);
+
+    if (!isPlain(parent)) return;
+
+    if (isPlain(source) && Object.prototype.hasOwnProperty.call(source, last)) {
+      parent[last] = clone(source[last]);
+      return;
+    }
+
+    delete parent[last];
+
+    // Remove the objects left empty, closest first
+    for (let index = path.length; index > 0; index--) {
+      const object = at(result, path.slice(0, index));
+      if (!isPlain(object) || Object.keys(object).length > 0) break;
+
+      delete (at(result, path.slice(0, index - 1)) as any)[path[index - 1]];
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Renders a value as JavaScript, with a comment above each field of plain objects.
+ *
+ * @param value The value to render.
+ * @param describe Returns the comment of a field from its key path.
+ * @param path The key path of the value, empty for the root configuration.
+ * @returns The JavaScript source of the value.
+ */
+function scaffold(
+  value: unknown,
+  describe: (path: Array<string>) => string,
+  path: Array<string> = []
+): string {
+  const indent = '  '.repeat(path.length);
+
+  if (isPlain(value) && Object.keys(value).length > 0) {
+    const fields = Object.keys(value).map((key) => {
+      const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+      const comment = describe([...path, key])
+        .split('\n')
+        .map((line) => `${indent}  // ${line}`.trimEnd())
+        .join('\n');
+
+      return `${comment}\n${indent}  ${name}: ${scaffold(value[key], describe, [
+        ...path,
+        key,
+      ])},`;
+    });
+
+    return `{\n${fields.join('\n')}\n${indent}}`;
+  }
+
+  // Values nested in arrays are indented like the array
+  const json = JSON.stringify(value, null, 2);
+  return isStr(json) ? json.replace(/\n/g, `\n${indent}`) : String(value);
+}
+
+/**
+ * The config file candidates searched in order when neither `file` nor `candidates` are set.
+ */
+const CANDIDATES: ReadonlyArray<string> = [
+  'mega.config.js',
+  'mega.config.json',
+  '.megarc',
+  '.megarc.json',
+  'package.json',
+  'config/mega.config.js',
+  'config/mega.config.json',
+  'config/.megarc',
+  'config/.megarc.json',
+];
+
+/**
+ * The `package.json` key searched with the default candidates when `property` is not set.
+ */
+const PROPERTY = 'megaorm';
+
+/**
+ * The synchronous file system checks used by `resolveSync`.
+ */
+const SYNC_PROBE: Probe = {
+  exists: (path) => fs.existsSync(path),
+  read: (path) => {
+    try {
+      return fs.readFileSync(path, 'utf-8');
+    } catch {
+      return undefined;
+    }
+  },
+};
+
+/**
+ * The asynchronous file system checks used by `resolve`.
+ */
+const ASYNC_PROBE: Probe = {
+  exists: (path) =>
+    fs.promises.access(path).then(
+      () => true,
+      () => false
+    ),
+  read: (path) =>
+    fs.promises.readFile(path, 'utf-8').then(
+      (content) => content,
+      () => undefined
+    ),
+};
+
+/**
+ * Checks whether the content of a `package.json` file declares workspaces.
+ *
+ * @param content The content of the `package.json` file.
+ * @returns `true` if the package has a `workspaces` array or object.
+ */
+function isWorkspace(content: string | undefined): boolean {
+  try {
+    const pkg = JSON.parse(content);
+    return isArr(pkg.workspaces) || isObj(pkg.workspaces);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parses an environment variable value.
+ *
+ * Values that are valid JSON (`true`, `3306`, `null`, `["a", "b"]`) are parsed,
+ * any other value is kept as a string.
+ *
+ * @param value The environment variable value.
+ * @returns The parsed value.
+ */
+function parseEnv(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Parses the content of a config file and reports syntax errors with their position.
+ *
+ * The error message ends with a code frame showing the lines around the syntax error,
+ * unless `framed` is disabled, e.g. because the file may hold secrets.
+ *
+ * @param content The content of the config file.
+ * @param path The path to the config file.
+ * @param parser The parser of the config file format.
+ * @param format The name of the format used in error messages.
+ * @param framed Whether the code frame is added to the error message.
+ * @returns The parsed configuration.
+ * @throws `ParseError` with the path, line, column and code frame of the syntax error in its message.
+ */
+function parseFile(
+  content: string,
+  path: string,
+  parser: (content: string) => unknown,
+  format: string,
+  framed: boolean = true
+): unknown {
+  try {
+    return parser(content);
+  } catch (error) {
+    if (!(error instanceof ParseError)) throw error;
+
+    const code = framed
+      ? `\n\n${frame(content, error.line, error.column)}`
+      : '';
+
+    throw new ParseError(
+      `Invalid ${format} in ${path} at line ${error.line}, column ${error.column}: ${error.message}${code}`,
+      error.line,
+      error.column
+    );
+  }
+}
 
 /**
  * A helper class for loading, managing, and validating configuration files.
  *
- * This class provides methods to load configuration files (both `.js` and `.json`)
+ * This class provides methods to load configuration files (`.js`, `.cjs`, `.mjs`, `.ts`, `.json`, `.jsonc`, `.json5`, `.yaml` and `.toml`)
  * from the file system.
  *
  * It supports default configurations, caching, and validation
@@ -71,28 +739,141 @@ type Validator = (config: any) => any;
  *   if (typeof config.paths.generators !== 'string') config.paths.generators = 'generators';
  * });
  *
+ * // Or describe the config with a schema, every violation is reported at once
+ * MegaConfig.schema({
+ *   cluster: { required: true, instance: MegaCluster },
+ *   paths: {
+ *     type: 'object',
+ *     default: {},
+ *     properties: {
+ *       models: { type: 'string', default: 'models' },
+ *       seeders: { type: 'string', default: 'seeders' },
+ *     },
+ *   },
+ * });
+ *
  * // Load your validated configuration
  * MegaConfig.load().then(config => console.log(config)); // Validation applied
  *
- * // Reload the previously loaded configuration
- * MegaConfig.reload(); // Refreshes the cached configuration
+ * // Read values of the loaded configuration by key path
+ * MegaConfig.get('paths.models', 'models'); // The value or the fallback
+ * MegaConfig.has('cluster'); // Whether the value is set
+ * MegaConfig.require('paths.seeders'); // Throws a `ConfigError` if missing
  *
- * // Use `loadJS` and `loadJSON` directly if needed
- * MegaConfig.loadJS(path).then(config => console.log(config));
- * MegaConfig.loadJSON(path).then(config => console.log(config));
+ * // Hand out a deep-frozen configuration, and take mutable copies when needed
+ * class MegaConfig extends Config {
+ *   protected static file = 'mega.config.js';
+ *   protected static freeze = true;
+ * }
  *
- * // Performance:
- * // - Always use the `load` method to benefit from caching.
- * // - The `loadJS` and `loadJSON`, executes I/O operations each time.
- * // - While `load` caches the configuration for better performance.
- * // - Use `reload` to refresh the cached configuration.
+ * MegaConfig.load().then(config => Object.isFrozen(config)); // true
+ * MegaConfig.snapshot(); // An independent deep copy
  *
- * // Resolve the project root synchronously
- * console.log(MegaConfig.resolveSync());
+ * // Hide secret values when the configuration is printed or serialized
+ * class MegaConfig extends Config {
+ *   protected static file = 'mega.config.js';
+ *   protected static secrets = ['*.password', 'cluster.*.secret'];
+ * }
  *
- * // Resolve the project root asynchronously
+ * MegaConfig.load().then(config => console.log(config)); // { db: { password: '[REDACTED]' } }
+ * MegaConfig.dump(); // Prints the redacted configuration
+ *
+ * // Hook into the loading process
+ * MegaConfig.hook('beforeLoad', (path, format) => console.log(`Loading ${path}`));
+ * MegaConfig.hook('onError', (error, stage) => console.log(stage, error.message));
+ *
+ * // Override config keys with environment variables
+ * class MegaConfig extends Config {
+ *   protected static file = 'mega.config.js';
+ *   protected static prefix = 'MEGA_';
+ * }
+ *
+ * // MEGA_PATHS__MODELS=src/models sets `config.paths.models` before validation
+ * MegaConfig.load().then(config => console.log(config.paths.models));
+ *
+ * // Merge your config file over the default configuration
+ * class MegaConfig extends Config {
+ *   protected static file = 'mega.config.js';
+ *   protected static default = { paths: { models: 'models', seeders: 'seeders' } };
+ *   protected static mode = 'merge' as const;
+ * }
+ *
+ * // `{ paths: { models: 'src/models' } }` resolves with `{ paths: { models: 'src/models', seeders: 'seeders' } }`
+ * MegaConfig.load().then(config => console.log(config));
+ *
+ * // Search the config file among several candidates, the first existing one wins
+ * class MegaConfig extends Config {
+ *   protected static candidates = ['mega.config.js', '.megarc', 'package.json'];
+ *   protected static property = 'megaorm'; // The package.json key
+ *   protected static upward = true; // Search from process.cwd() up to the project root
+ * }
+ *
+ * // Environment-specific files are merged over the base file
+ * // NODE_ENV=production merges `mega.config.production.js` over `mega.config.js`
+ * MegaConfig.load().then(config => console.log(config));
+ *
+ * // Reload the previously loaded configuration
+ * MegaConfig.reload(); // Refreshes the cached configuration
+ *
+ * // Validate and write a configuration to the config file, then cache it
+ * MegaConfig.save({ ...MegaConfig.snapshot(), debug: true });
+ *
+ * // Write a commented starter config from the default configuration and create its `paths` directories
+ * MegaConfig.init({ force: false }).then(path => console.log(path));
+ *
+ * // The config file that is loaded, or that `load` would load
+ * console.log(MegaConfig.which());
+ *
+ * // Where a value comes from: the default, files, environment variables, validators, hooks or `save`
+ * console.log(MegaConfig.explain('paths.models').sources);
+ *
+ * // Clear the cached configuration, the validators and the resolved root of this class only
+ * MegaConfig.reset();
+ *
+ * // Reload the configuration when the config file changes
+ * MegaConfig.watch().on('change', (config, previous) => console.log(config));
+ * MegaConfig.unwatch(); // Releases the watchers
+ *
+ * // Use `loadJS`, `loadTS` and `loadJSON` directly if needed
+ * MegaConfig.loadJS(path).then(config => console.log(config)); // .js, .cjs and .mjs
+ * MegaConfig.loadTS(path).then(config => console.log(config));
+ * MegaConfig.loadJSON(path).then(config => console.log(config)); // .json, .jsonc and .json5
+ * MegaConfig.loadYAML(path).then(config => console.log(config)); // .yaml and .yml
+ * MegaConfig.loadTOML(path).then(config => console.log(config));
+ *
+ * // Load synchronously, e.g. at module scope, with synchronous validators and hooks only
+ * const config = MegaConfig.loadSync(); // Shares the cache of `load`
+ * MegaConfig.loadJSSync(path); // .js and .cjs
+ * MegaConfig.loadJSONSync(path); // .json, .jsonc and .json5
+ *
+ * // Performance:
+ * // - Always use the `load` method to benefit from caching.
+ * // - The `loadJS` and `loadJSON`, executes I/O operations each time.
+ * // - While `load` caches the configuration for better performance.
+ * // - Use `reload` to refresh the cached configuration.
+ *
+ * // Resolve the project root synchronously
+ * console.log(MegaConfig.resolveSync());
+ *
+ * // Resolve the project root asynchronously
  * MegaConfig.resolve().then((root) => console.log(root));
  *
+ * // Merge several sources in order instead of a single config file
+ * class AppConfig extends Config {
+ *   protected static sources = [
+ *     this.fileSource('app.config.json'),
+ *     this.fileSource('app.local.json', true), // Optional
+ *     this.packageSource('app'),
+ *     this.envSource('APP_'),
+ *   ];
+ * }
+ *
+ * // Find the root of a monorepo, or of a deployment without node_modules
+ * class MegaConfig extends Config {
+ *   protected static strategies = ['env', 'workspace', 'markers'] as const;
+ *   protected static markers = ['package.json', '.git'];
+ * }
+ *
  * // Ensure a file or directory exists
  * MegaConfig.exist(path).then(() => console.log('Exists'));
  *
@@ -129,6 +910,37 @@ export class Config {
    */
   protected static file: string;
 
+  /**
+   * The ordered list of config file candidates searched instead of `file`, the first existing one is loaded.
+   * Candidates are relative paths, e.g. `['mega.config.js', '.megarc', 'package.json', 'config/mega.config.js']`.
+   *
+   * If neither `file` nor `candidates` are set, the default candidates are searched: `mega.config.js`,
+   * `mega.config.json`, `.megarc`, `.megarc.json`, the `megaorm` key of `package.json`, then the same
+   * files in a `config/` subfolder.
+   *
+   * @protected
+   * @static
+   */
+  protected static candidates: Array<string>;
+
+  /**
+   * The key holding the configuration in `package.json` files, e.g. `megaorm`.
+   * A `package.json` candidate is only used if it has this key, `megaorm` with the default candidates.
+   *
+   * @protected
+   * @static
+   */
+  protected static property: string;
+
+  /**
+   * Whether the candidates are searched in every directory from `process.cwd()` up to the project root.
+   * This property defaults to `false`, where only the project root is searched.
+   *
+   * @protected
+   * @static
+   */
+  protected static upward: boolean;
+
   /**
    * The root directory of the project, where the config file will be searched by default.
    * This property defaults to the current working directory of the Node.js process.
@@ -138,6 +950,49 @@ export class Config {
    */
   protected static root: string;
 
+  /**
+   * The strategies used in order to find the project root, the first one finding a directory wins.
+   * This property defaults to `['env', 'markers']`.
+   *
+   * @protected
+   * @static
+   */
+  protected static strategies: ReadonlyArray<RootStrategy>;
+
+  /**
+   * The files or directories marking the project root for the `markers` strategy.
+   * This property defaults to `['node_modules']`, e.g. use `['package.json', '.git']` in deployments without `node_modules`.
+   *
+   * @protected
+   * @static
+   */
+  protected static markers: Array<string>;
+
+  /**
+   * The maximum number of parent directories searched above `process.cwd()`, unlimited by default.
+   *
+   * @protected
+   * @static
+   */
+  protected static depth: number;
+
+  /**
+   * The environment variable holding an explicit project root for the `env` strategy.
+   * This property defaults to `MEGA_ROOT`.
+   *
+   * @protected
+   * @static
+   */
+  protected static variable: string;
+
+  /**
+   * The working directory and the root resolved for it, so the root is resolved again if `process.cwd()` changes.
+   *
+   * @private
+   * @static
+   */
+  private static resolved: { cwd: string; root: string };
+
   /**
    * The path of the previously loaded config file.
    * This property keeps track of the file path that was last successfully loaded.
@@ -147,6 +1002,14 @@ export class Config {
    */
   private static loaded: string;
 
+  /**
+   * The key paths of the cached configuration and the sources that set them, in order.
+   *
+   * @private
+   * @static
+   */
+  private static provenance: Array<Trace>;
+
   /**
    * A collection of validator functions to validate or modify the configuration.
    * Each validator function is executed in order when the configuration is loaded or validated.
@@ -157,349 +1020,2890 @@ export class Config {
   private static validators: Array<Validator>;
 
   /**
-   * The default configuration object.
-   * This property can be overridden in subclasses to provide a custom default configuration.
+   * Whether the validators registered on the parent class also run, before the validators of this class.
+   * This property defaults to `false`, so each class only runs its own validators.
+   *
+   * @protected
+   * @static
+   */
+  protected static inherit: boolean;
+
+  /**
+   * The default configuration object.
+   * This property can be overridden in subclasses to provide a custom default configuration.
+   *
+   * @protected
+   * @static
+   */
+  protected static default: Record<string, unknown>;
+
+  /**
+   * The ordered sources merged into the configuration, each one over the previous ones.
+   * If not set, the `file` is the single source of the configuration.
+   *
+   * @protected
+   * @static
+   */
+  protected static sources: ReadonlyArray<ConfigSource>;
+
+  /**
+   * The descriptions of the config fields by key path, e.g. `{ 'paths.models': 'The models directory' }`.
+   * They are written as comments in the starter config generated by `init`.
+   *
+   * @protected
+   * @static
+   */
+  protected static descriptions: Record<string, string>;
+
+  /**
+   * How the default configuration is used, either as a `fallback` for missing files (the default)
+   * or deep-merged under the loaded config file with `merge`.
+   *
+   * @protected
+   * @static
+   */
+  protected static mode: DefaultMode;
+
+  /**
+   * How arrays are handled when configurations are merged, either `replace` (the default) or `concat`.
+   * This applies to the default configuration and environment-specific files.
+   *
+   * @protected
+   * @static
+   */
+  protected static arrays: ArrayMerge;
+
+  /**
+   * Whether the configuration handed out by `load` and `reload` is deep-frozen, `false` by default.
+   * Validators can still modify the configuration, it's frozen once validated.
+   *
+   * @protected
+   * @static
+   */
+  protected static freeze: boolean;
+
+  /**
+   * The key path patterns of the secret values, e.g. `*.password` or `cluster.*.secret`.
+   * Secret values are hidden when the configuration is inspected, serialized or shown in validation errors.
+   *
+   * @protected
+   * @static
+   */
+  protected static secrets: Array<string>;
+
+  /**
+   * Whether `save` keeps a timestamped copy of the previous config file, `false` by default.
+   * The copy is written next to the config file, e.g. `mega.config.js.2024-01-31T12-00-00-000Z.bak`.
+   *
+   * @protected
+   * @static
+   */
+  protected static backup: boolean;
+
+  /**
+   * The hook used to transpile TypeScript config files to CommonJS.
+   * This property defaults to `transpileModule` from the `typescript` package and can be overridden in subclasses.
+   *
+   * @protected
+   * @static
+   */
+  protected static transpile: Transpiler;
+
+  /**
+   * The prefix of the environment variables used to override config keys.
+   * For example, with the prefix `MEGA_` the variable `MEGA_PATHS__MODELS` overrides `config.paths.models`.
+   * This property can be set in subclasses to enable the environment overlay.
+   *
+   * @protected
+   * @static
+   */
+  protected static prefix: string;
+
+  /**
+   * The environment used to pick the environment-specific config file.
+   * For example, with the environment `production` the file `mega.config.production.js` is merged over `mega.config.js`.
+   * This property defaults to `process.env.NODE_ENV` and can be overridden in subclasses.
+   *
+   * @protected
+   * @static
+   */
+  protected static environment: string;
+
+  /**
+   * The delay in milliseconds used to debounce file changes in watch mode.
+   * This property defaults to `100` and can be overridden in subclasses.
+   *
+   * @protected
+   * @static
+   */
+  protected static debounce: number;
+
+  /**
+   * The emitter of the watch mode events, defined while watching.
+   *
+   * @private
+   * @static
+   */
+  private static emitter: EventEmitter;
+
+  /**
+   * The file system watchers of the watch mode.
+   *
+   * @private
+   * @static
+   */
+  private static watchers: Array<{ close(): void }>;
+
+  /**
+   * The lifecycle hooks registered on this class, hooks are never shared with other subclasses.
+   *
+   * @private
+   * @static
+   */
+  private static hooks: { [K in keyof Hooks]?: Array<Hooks[K]> };
+
+  /**
+   * The in-flight load, shared by concurrent `load` calls.
+   *
+   * @private
+   * @static
+   */
+  private static loading: Promise<unknown>;
+
+  /**
+   * The in-flight reload, shared by concurrent `load` and `reload` calls.
+   *
+   * @private
+   * @static
+   */
+  private static reloading: Promise<unknown>;
+
+  /**
+   * The pending debounced reload of the watch mode.
+   *
+   * @private
+   * @static
+   */
+  private static timer: NodeJS.Timeout;
+
+  /**
+   * The shape of the configuration, used to type the `get`, `has` and `require` accessors.
+   * This property is never assigned, subclasses declare it with `declare static shape: MyConfig`.
+   *
+   * @public
+   * @static
+   */
+  public static shape?: unknown;
+
+  /**
+   * Resolves the project root directory synchronously.
+   *
+   * - The `strategies` are tried in order: the `MEGA_ROOT` environment variable, then the closest
+   *   parent directory containing `node_modules` by default.
+   * - The resolved root is cached for the current working directory, and resolved again if `process.cwd()` changes.
+   * - A `root` set in a subclass is always used as is.
+   *
+   * @returns The path to the project root directory.
+   * @throws `ConfigError` if no project root is found, or if the strategies are invalid.
+   */
+  public static resolveSync(): string {
+    if (this.cached()) return this.root;
+
+    const cwd = process.cwd();
+    const root = this.find(cwd, SYNC_PROBE) as string | undefined;
+
+    if (!isStr(root)) throw new ConfigError('Could not find project root');
+    return this.cache(cwd, root);
+  }
+
+  /**
+   * Resolves the project root directory asynchronously.
+   *
+   * - The `strategies` are tried in order: the `MEGA_ROOT` environment variable, then the closest
+   *   parent directory containing `node_modules` by default.
+   * - The resolved root is cached for the current working directory, and resolved again if `process.cwd()` changes.
+   * - A `root` set in a subclass is always used as is.
+   *
+   * @returns A promise that resolves to the project root directory path.
+   * @throws `ConfigError` if no project root is found, or if the strategies are invalid.
+   */
+  public static resolve(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (this.cached()) return resolve(this.root);
+
+      const cwd = process.cwd();
+
+      return Promise.resolve()
+        .then(() => this.find(cwd, ASYNC_PROBE))
+        .then((root) => {
+          if (!isStr(root))
+            throw new ConfigError('Could not find project root');
+          resolve(this.cache(cwd, root));
+        })
+        .catch((error) => reject(error));
+    });
+  }
+
+  /**
+   * Checks whether the cached project root can be used.
+   *
+   * @returns `true` if the root was set in a subclass, or resolved by this class for the current working directory.
+   */
+  private static cached(): boolean {
+    if (!isStr(this.root)) return false;
+
+    // Find the class defining the root
+    let owner: typeof Config = this;
+
+    while (!Object.prototype.hasOwnProperty.call(owner, 'root')) {
+      owner = Object.getPrototypeOf(owner);
+    }
+
+    const resolved = owner.own('resolved');
+
+    // A root that wasn't resolved was set explicitly
+    if (isUndefined(resolved) || resolved.root !== this.root) return true;
+
+    // A root resolved by a parent class is resolved again for this class
+    return owner === this && resolved.cwd === process.cwd();
+  }
+
+  /**
+   * Caches the project root resolved for a working directory.
+   *
+   * @param cwd The working directory.
+   * @param root The resolved project root.
+   * @returns The project root.
+   */
+  private static cache(cwd: string, root: string): string {
+    this.resolved = { cwd, root };
+    return (this.root = root);
+  }
+
+  /**
+   * Tries the root strategies in order.
+   *
+   * @param cwd The working directory.
+   * @param probe The file system checks, synchronous or asynchronous.
+   * @returns The project root, `undefined` if not found, or a promise of it with asynchronous checks.
+   * @throws `ConfigError` if the strategies are invalid.
+   */
+  private static find(
+    cwd: string,
+    probe: Probe
+  ): string | undefined | Promise<string | undefined> {
+    const strategies = isDefined(this.strategies)
+      ? this.strategies
+      : (['env', 'markers'] as ReadonlyArray<RootStrategy>);
+
+    if (!isArr(strategies)) {
+      throw new ConfigError(`Invalid root strategies: ${String(strategies)}`);
+    }
+
+    return strategies.reduce(
+      (root, strategy) =>
+        chain(root, (root) =>
+          isStr(root) ? root : this.strategy(strategy, cwd, probe)
+        ),
+      undefined as string | undefined | Promise<string | undefined>
+    );
+  }
+
+  /**
+   * Runs a single root strategy.
+   *
+   * @param strategy The root strategy.
+   * @param cwd The working directory.
+   * @param probe The file system checks, synchronous or asynchronous.
+   * @returns The project root, `undefined` if not found, or a promise of it with asynchronous checks.
+   * @throws `ConfigError` if the strategy is invalid, or if the environment variable names a missing directory.
+   */
+  private static strategy(
+    strategy: RootStrategy,
+    cwd: string,
+    probe: Probe
+  ): string | undefined | Promise<string | undefined> {
+    if (isFunc(strategy)) return (strategy as (cwd: string) => string)(cwd);
+
+    if (strategy === 'env') {
+      const variable = isStr(this.variable) ? this.variable : 'MEGA_ROOT';
+      const value = process.env[variable];
+
+      if (!isStr(value) || value === '') return undefined;
+
+      const root = absolute(cwd, value);
+
+      return chain(probe.exists(root), (exists) => {
+        if (exists) return root;
+        throw new ConfigError(`${variable} directory does not exist: ${root}`);
+      });
+    }
+
+    if (strategy === 'workspace') {
+      return this.walk(cwd, (directory) =>
+        chain(probe.read(join(directory, 'package.json')), isWorkspace)
+      );
+    }
+
+    if (strategy === 'markers') {
+      const markers = isDefined(this.markers) ? this.markers : ['node_modules'];
+
+      if (!isArrOfStr(markers)) {
+        throw new ConfigError(`Invalid markers: ${String(markers)}`);
+      }
+
+      return this.walk(cwd, (directory) =>
+        markers.reduce(
+          (found, marker) =>
+            chain(found, (found) =>
+              found ? true : probe.exists(join(directory, marker))
+            ),
+          false as boolean | Promise<boolean>
+        )
+      );
+    }
+
+    throw new ConfigError(`Invalid root strategy: ${String(strategy)}`);
+  }
+
+  /**
+   * Searches the working directory and its parents for the first directory passing a test.
+   *
+   * - The file system root is never searched.
+   * - At most `depth` parent directories are searched above the working directory.
+   *
+   * @param cwd The working directory.
+   * @param test The test of each directory, synchronous or asynchronous.
+   * @returns The first directory passing the test, `undefined` if none does, or a promise of it.
+   */
+  private static walk(
+    cwd: string,
+    test: (directory: string) => boolean | Promise<boolean>
+  ): string | undefined | Promise<string | undefined> {
+    const depth = typeof this.depth === 'number' ? this.depth : Infinity;
+
+    const visit = (
+      directory: string,
+      level: number
+    ): string | undefined | Promise<string | undefined> => {
+      if (directory === parse(directory).root || level > depth) {
+        return undefined;
+      }
+
+      return chain(test(directory), (found) =>
+        found ? directory : visit(dirname(directory), level + 1)
+      );
+    };
+
+    return visit(cwd, 0);
+  }
+
+  /**
+   * Checks if a specified path exists.
+   *
+   * This method tests whether a given file or directory path exists in the file system.
+   * If the path is valid and accessible, the promise resolves successfully.
+   *
+   * @param path The path to check for existence.
+   * @returns A promise that resolves to `void` if the path exists or rejects with a `ConfigError` if it doesn't.
+   * @throws `ConfigError` if the path is invalid or inaccessible.
+   */
+  public static exist(path: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!isStr(path)) {
+        return reject(new ConfigError(`Invalid path: ${String(path)}`));
+      }
+
+      fs.promises
+        .access(path)
+        .then(resolve)
+        .catch((error) => reject(new ConfigError(error.message)));
+    });
+  }
+
+  /**
+   * Checks if multiple paths exist.
+   *
+   * This method validates the existence of multiple file or directory paths.
+   * It resolves if all paths exist or rejects if any path is missing or invalid.
+   *
+   * @param paths An array of paths to check for existence.
+   * @returns A promise that resolves to `void` if all paths exist or rejects with a `ConfigError` if any path doesn't.
+   * @throws `ConfigError` if any path is invalid or inaccessible.
+   */
+  public static existMany(paths: Array<string>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!isArrOfStr(paths)) {
+        return reject(new ConfigError(`Invalid paths: ${String(paths)}`));
+      }
+
+      return Promise.all(paths.map((path) => this.exist(path)))
+        .then(() => resolve())
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Ensures that a directory exists, creating it if necessary.
+   *
+   * - If the directory already exists, the method resolves immediately.
+   * - If the directory does not exist, it creates the necessary directories recursively.
+   *
+   * @param path The path to the directory to check or create.
+   * @returns A promise that resolves when the directory exists or is created successfully.
+   * @throws `ConfigError` if the path is invalid or directory creation fails.
+   */
+  public static mkdir(path: string): Promise<void | string> {
+    return new Promise((resolve, reject) => {
+      if (!isStr(path)) {
+        return reject(new ConfigError(`Invalid path: ${String(path)}`));
+      }
+
+      this.exist(path)
+        .then(resolve)
+        .catch(() => fs.promises.mkdir(path, { recursive: true }))
+        .then(resolve)
+        .catch((error) => reject(new ConfigError(error.message)));
+    });
+  }
+
+  /**
+   * Ensures that a configuration file exists, creating it along with its directories if necessary.
+   *
+   * - If the file already exists, the method resolves immediately.
+   * - If the file does not exist, it ensures all parent directories are created and writes the file.
+   *
+   * @param path The full path to the configuration file.
+   * @param content The content to write if the file is created. Defaults to an empty string.
+   * @returns A Promise that resolves when the file is confirmed to exist or is created successfully.
+   * @throws `ConfigError` if the path is invalid or if file creation fails.
+   */
+  public static mkfile(path: string, content: string = ''): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!isStr(path)) {
+        return reject(new ConfigError(`Invalid path: ${String(path)}`));
+      }
+
+      if (!isStr(content)) {
+        return reject(new ConfigError(`Invalid content: ${String(content)}`));
+      }
+
+      this.exist(path) // Ensure the file exist
+        .then(resolve)
+        .catch(() => this.mkdir(dirname(path))) // Ensure the directory exists
+        .then(() => fs.promises.writeFile(path, content)) // Write the file
+        .then(resolve)
+        .catch((error) => reject(new ConfigError(error.message)));
+    });
+  }
+
+  /**
+   * Registers a new validator function to be applied to the config.
+   *
+   * The validator function is expected to either modify the config or throw an error if validation fails.
+   * Validators only run for the class they are registered on, or its subclasses enabling `inherit`.
+   *
+   * @param validator A function that takes the current config and either modifies it or throws an error.
+   * @returns The Config instance, allowing for method chaining.
+   * @throws `ConfigError` if the validator is not a function.
+   */
+  public static register(validator: Validator): Config {
+    if (!isFunc(validator)) {
+      throw new ConfigError(`Invalid validator: ${String(validator)}`);
+    }
+
+    if (!isArr(this.own('validators'))) this.validators = [];
+    this.validators.push(validator);
+    return this;
+  }
+
+  /**
+   * Registers a lifecycle hook.
+   *
+   * - `beforeLoad(path, format)`: Called before a config file is read.
+   * - `afterValidate(config)`: Called with the validated config before it's cached, it can return a patched config.
+   * - `onError(error, stage)`: Called when loading fails, with the stage: `resolve`, `read`, `parse` or `validate`.
+   *   Errors thrown by `onError` hooks are ignored.
+   * - `onReload(previous, next)`: Called after the config is reloaded.
+   *
+   * Hooks only fire for the class they are registered on, never for its parent or sibling classes.
+   *
+   * @param name The name of the hook.
+   * @param hook The hook function.
+   * @returns The Config instance, allowing for method chaining.
+   * @throws `ConfigError` if the hook name is unknown or the hook is not a function.
+   *
+   * @example
+   * MegaConfig.hook('beforeLoad', (path) => console.log(`Loading ${path}`));
+   * MegaConfig.hook('onError', (error, stage) => telemetry.report(stage, error));
+   * MegaConfig.hook('afterValidate', (config) => ({ ...config, loadedAt: Date.now() }));
+   */
+  public static hook<K extends keyof Hooks>(name: K, hook: Hooks[K]): Config {
+    if (
+      !['beforeLoad', 'afterValidate', 'onError', 'onReload'].includes(name)
+    ) {
+      throw new ConfigError(`Invalid hook name: ${String(name)}`);
+    }
+
+    if (!isFunc(hook)) throw new ConfigError(`Invalid hook: ${String(hook)}`);
+
+    if (!isObj(this.own('hooks'))) this.hooks = {};
+
+    if (!isArr(this.hooks[name])) this.hooks[name] = [];
+
+    this.hooks[name].push(hook);
+    return this;
+  }
+
+  /**
+   * Returns the hooks registered on this class under the given name.
+   *
+   * @param name The name of the hook.
+   * @returns The registered hooks, in order.
+   */
+  private static hooksOf<K extends keyof Hooks>(name: K): Array<Hooks[K]> {
+    const hooks = this.own('hooks');
+
+    if (!isObj(hooks)) return [];
+    return isArr(hooks[name]) ? hooks[name] : [];
+  }
+
+  /**
+   * Returns a static property only if it's defined on this class.
+   *
+   * The state of a class, like its cached config or its validators, is never read from its parent class.
+   *
+   * @param key The name of the static property.
+   * @returns The value of the property, or `undefined` if it's not defined on this class.
+   */
+  private static own(key: State): any {
+    return Object.prototype.hasOwnProperty.call(this, key)
+      ? this[key]
+      : undefined;
+  }
+
+  /**
+   * Returns the validators run for this class.
+   *
+   * @returns The validators of this class, preceded by the validators of its parent class if `inherit` is enabled.
+   */
+  private static registry(): Array<Validator> {
+    const validators = this.own('validators');
+
+    if (this.inherit !== true || this === Config) return validators;
+
+    const inherited = Object.getPrototypeOf(this).registry();
+
+    if (isUndefined(inherited)) return validators;
+    if (isUndefined(validators)) return inherited;
+    if (!isArr(inherited) || !isArr(validators)) return null;
+
+    return [...inherited, ...validators];
+  }
+
+  /**
+   * Converts an error to a `ConfigError` and reports it to the `onError` hooks.
+   * Errors thrown by the hooks are ignored, so the load always settles with the original error.
+   *
+   * @param error The error to report.
+   * @param stage The stage of the loading process where the error happened.
+   * @returns The `ConfigError` to reject with.
+   */
+  private static fail(error: Error, stage: Stage): ConfigError {
+    const failure =
+      error instanceof ConfigError ? error : new ConfigError(error.message);
+
+    this.hooksOf('onError').forEach((hook) => {
+      try {
+        hook(failure, stage);
+      } catch {
+        // A failing hook must not hide the error it reports
+      }
+    });
+
+    return failure;
+  }
+
+  /**
+   * Applies the environment variables that start with the `prefix` on top of the given config.
+   *
+   * - The prefix is removed and double underscores separate nested keys: `MEGA_PATHS__MODELS` sets `config.paths.models`.
+   * - Keys are matched case-insensitively against the existing keys, new keys are lowercased.
+   * - Values are parsed as JSON when possible (`true`, `3306`, `["a"]`), otherwise they are kept as strings.
+   * - Missing parent keys are created, but class instances, arrays and scalars are never replaced.
+   *
+   * @param config The configuration object to override.
+   * @returns The configuration object with the environment overrides applied.
+   * @throws `ConfigError` if a variable sets a key inside a value that is not a plain object, e.g. `MEGA_CLUSTER__PORT`.
+   */
+  public static overlay(
+    config: Record<string, unknown>
+  ): Record<string, unknown> {
+    return this.variables(config, []);
+  }
+
+  /**
+   * Applies the environment variable overlay, as described in `overlay`.
+   *
+   * @param config The configuration object to override.
+   * @param trail The provenance of the configuration, the keys set by each variable are added to it.
+   * @param prefix The prefix of the variables, `prefix` by default.
+   * @returns The configuration object with the environment overrides applied.
+   */
+  private static variables(
+    config: Record<string, unknown>,
+    trail: Array<Trace>,
+    prefix: string = this.prefix
+  ): Record<string, unknown> {
+    if (!isStr(prefix) || !isPlain(config)) return config;
+
+    Object.keys(process.env)
+      .filter((name) => name.startsWith(prefix))
+      .sort()
+      .forEach((name) => {
+        const keys = name.slice(prefix.length).split('__');
+
+        // Ignore variables like `MEGA_` or `MEGA_PATHS__`
+        if (keys.some((key) => key === '')) return;
+
+        // Resolve each key against the existing keys
+        const resolve = (parent: Record<string, unknown>, key: string) => {
+          const match = Object.keys(parent).find(
+            (name) => name.toLowerCase() === key.toLowerCase()
+          );
+
+          return isDefined(match) ? match : key.toLowerCase();
+        };
+
+        const path: Array<string> = [];
+        const last = keys.pop();
+        const parent = keys.reduce((parent, key) => {
+          const child = resolve(parent, key);
+          const value = parent[child];
+
+          path.push(child);
+
+          if (value === null || isUndefined(value)) parent[child] = {};
+
+          // Never replace instances, arrays or scalars, e.g. a cluster
+          if (!isPlain(parent[child])) {
+            throw new ConfigError(
+              `Cannot apply ${name}: ${path.join('.')} is not a plain object`
+            );
+          }
+
+          return parent[child] as Record<string, unknown>;
+        }, config);
+
+        const key = resolve(parent, last);
+        const value = parseEnv(process.env[name]);
+
+        parent[key] = value;
+
+        leaves(value, [...path, key]).forEach((key) =>
+          trail.push({ key, source: { type: 'env', name } })
+        );
+      });
+
+    return config;
+  }
+
+  /**
+   * Registers a declarative schema to be applied to the config.
+   *
+   * - Every violation is reported at once with its key path, e.g. `paths.models: expected string, got number`.
+   * - Undefined keys are assigned the `default` of their rule before they are checked.
+   * - The schema runs in order with the other registered validators.
+   *
+   * @param schema An object mapping config keys to their rules.
+   * @returns The Config instance, allowing for method chaining.
+   * @throws `ConfigError` if the schema is not an object.
+   */
+  public static schema(schema: Schema): Config {
+    if (!isObj(schema)) {
+      throw new ConfigError(`Invalid schema: ${String(schema)}`);
+    }
+
+    return this.register(function schemaValidator(config) {
+      if (!isObj(config)) {
+        throw new ConfigError(
+          `Invalid config: expected object, got ${typeof config}`
+        );
+      }
+
+      const violations = validate(config, schema);
+
+      if (violations.length > 0) {
+        throw new ConfigError(
+          `Invalid config:\n${violations.map((v) => `- ${v}`).join('\n')}`
+        );
+      }
+
+      return config;
+    });
+  }
+
+  /**
+   * Validates the config by applying all registered validators in order.
+   *
+   * - Each validator will modify the config or throw an error. The final modified config is returned.
+   * - If a validator returns a promise, it's awaited before the next validator runs and a promise is returned.
+   * - Errors are rethrown as `ConfigError` naming the failing validator, e.g. `Validator "checkCluster" failed: ...`.
+   * - Secret values are replaced with `[REDACTED]` in error messages.
+   *
+   * @param config The configuration object to be validated and potentially modified.
+   * @returns The final modified config, or a promise of it if any validator is asynchronous.
+   * @throws `ConfigError` if the validators are not properly registered or if any validator throws an error.
+   */
+  public static validate(
+    config: Record<string, unknown>
+  ): Record<string, unknown> | Promise<Record<string, unknown>> {
+    return this.check(config, false);
+  }
+
+  /**
+   * Applies all registered validators in order, as described in `validate`.
+   *
+   * @param config The configuration object to be validated and potentially modified.
+   * @param sync Whether the validators must be synchronous, as in `loadSync`.
+   * @param trail The provenance of the configuration, the keys changed by each validator are added to it.
+   * @returns The final modified config, or a promise of it if any validator is asynchronous.
+   * @throws `ConfigError` if any validator throws an error, or returns a promise in `sync` mode.
+   */
+  private static check(
+    config: Record<string, unknown>,
+    sync: boolean,
+    trail?: Array<Trace>
+  ): Record<string, unknown> | Promise<Record<string, unknown>> {
+    const validators = this.registry();
+
+    if (isUndefined(validators)) return config;
+
+    if (!isArrOfFunc(validators)) {
+      throw new ConfigError(`Invalid validators: ${String(validators)}`);
+    }
+
+    const run = (validator: Validator, index: number, config: any) => {
+      const name = validator.name ? `"${validator.name}"` : `#${index + 1}`;
+
+      const fail = (error: Error) => {
+        const message = `Validator ${name} failed: ${error.message}`;
+
+        throw new ConfigError(
+          isArrOfStr(this.secrets)
+            ? conceal(message, config, this.secrets)
+            : message
+        );
+      };
+
+      // Compare the config before and after the validator to trace its changes
+      const before = isDefined(trail) ? clone(config) : undefined;
+      const record = (result: any) => {
+        if (isUndefined(trail)) return result;
+
+        const source: Source = {
+          type: 'validator',
+          name: validator.name || `#${index + 1}`,
+        };
+
+        changes(before, result).forEach((key) => trail.push({ key, source }));
+        return result;
+      };
+
+      let result: any;
+
+      try {
+        result = validator(config);
+      } catch (error) {
+        fail(error);
+      }
+
+      if (sync) return record(this.settle(result, `Validator ${name}`));
+      return isPromise(result)
+        ? result.catch(fail).then(record)
+        : record(result);
+    };
+
+    return validators.reduce(
+      (config, validator, index) =>
+        isPromise(config)
+          ? config.then((config) => run(validator, index, config))
+          : run(validator, index, config),
+      config
+    );
+  }
+
+  /**
+   * Returns the result of a step of a synchronous load.
+   *
+   * @param result The value returned by a validator or a hook.
+   * @param name The name of the validator or hook used in error messages.
+   * @returns The result.
+   * @throws `ConfigError` if the result is a promise.
+   */
+  private static settle<T>(result: T, name: string): T {
+    if (!isPromise(result)) return result;
+
+    // The step runs anyway, ignore its outcome
+    result.then(undefined, () => undefined);
+
+    throw new ConfigError(
+      `${name} returned a Promise, which is not supported when loading synchronously, use load() instead`
+    );
+  }
+
+  /**
+   * Reads and parses a config file based on its extension.
+   *
+   * - `.js` and `.cjs` files are loaded using `require()`, or `import()` if they are ES modules.
+   * - `.mjs` files are loaded using `import()`.
+   * - JavaScript files read again bypass the module caches, so reloads pick up changes on disk.
+   * - The exports of JavaScript files are copied, so other modules importing them never see the loaded config.
+   * - `.ts` files are transpiled using the `transpile` hook and evaluated as CommonJS modules.
+   * - `.json`, `.jsonc`, `.json5`, `.yaml`, `.yml` and `.toml` files are read and parsed.
+   * - Files without extension, such as `.megarc`, are parsed as YAML, which also accepts JSON.
+   * - The `property` key of `package.json` files is used as the configuration.
+   * - `.jsonc` and `.json5` files accept comments, trailing commas, unquoted keys and single quotes.
+   * - The `default` export of ES modules is unwrapped.
+   *
+   * @param path The path to the config file.
+   * @returns A Promise that resolves with the parsed configuration.
+   * @throws `ConfigError` if the file extension is unsupported.
+   */
+  private static read(path: string): Promise<unknown> {
+    const extension = extname(path).toLowerCase();
+
+    if (['.js', '.cjs', '.mjs'].includes(extension)) {
+      // Copy the module so the cached exports are never overlaid, validated or frozen
+      return loadModule(path).then((module) => clone(unwrap(module)));
+    }
+
+    const parser = this.parser(path);
+
+    if (isUndefined(parser)) {
+      return Promise.reject(
+        new ConfigError(`Unsupported config file extention: ${extension}`)
+      );
+    }
+
+    return fs.promises.readFile(path, 'utf-8').then(parser);
+  }
+
+  /**
+   * Reads and parses a config file synchronously, as described in `read`.
+   *
+   * @param path The path to the config file.
+   * @returns The parsed configuration.
+   * @throws `ConfigError` if the file extension is unsupported or the file is an ES module.
+   */
+  private static readSync(path: string): unknown {
+    const extension = extname(path).toLowerCase();
+
+    if (['.js', '.cjs', '.mjs'].includes(extension)) {
+      return clone(unwrap(loadModuleSync(path)));
+    }
+
+    const parser = this.parser(path);
+
+    if (isUndefined(parser)) {
+      throw new ConfigError(`Unsupported config file extention: ${extension}`);
+    }
+
+    return parser(fs.readFileSync(path, 'utf-8'));
+  }
+
+  /**
+   * Resolves the parser of a config file read as text, based on its extension.
+   *
+   * @param path The path to the config file.
+   * @returns A function that parses the file content, or `undefined` if the extension is unsupported.
+   */
+  private static parser(
+    path: string
+  ): ((content: string) => unknown) | undefined {
+    const extension = extname(path).toLowerCase();
+
+    // The code frame would print secret values of the failing lines
+    const parse = (
+      content: string,
+      parser: (content: string) => unknown,
+      format: string
+    ) => parseFile(content, path, parser, format, isUndefined(this.secrets));
+
+    if (extension === '.ts') {
+      return (source) => {
+        const evaluated = new Map<string, unknown>();
+        const transpile = this.transpiler(path);
+        const module = compile(
+          transpile(source, path),
+          path,
+          evaluated,
+          transpile
+        );
+
+        record(path, evaluated);
+        return unwrap(module);
+      };
+    }
+
+    if (extension === '.json') {
+      return (content) => {
+        const config = parse(content, (json) => parseJSON(json, true), 'JSON');
+
+        const key = this.key();
+
+        return basename(path) === 'package.json' && isStr(key)
+          ? config[key]
+          : config;
+      };
+    }
+
+    if (extension === '.jsonc' || extension === '.json5') {
+      return (content) => parse(content, parseJSON, 'JSON');
+    }
+
+    if (['.yaml', '.yml', ''].includes(extension)) {
+      return (content) => parse(content, parseYAML, 'YAML');
+    }
+
+    if (extension === '.toml') {
+      return (content) => parse(content, parseTOML, 'TOML');
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resolves the transpiler used for TypeScript config files.
+   *
+   * - Returns the `transpile` hook if provided.
+   * - Otherwise uses `transpileModule` from the `typescript` package installed in your project.
+   *
+   * @param path The path to the TypeScript config file.
+   * @returns A function that transpiles TypeScript source code to CommonJS.
+   * @throws `ConfigError` if no `transpile` hook is provided and `typescript` is not installed.
+   */
+  private static transpiler(path: string): Transpiler {
+    if (isFunc(this.transpile)) return this.transpile;
+
+    try {
+      const ts = require(require.resolve('typescript', {
+        paths: [dirname(path)],
+      }));
+
+      return (source, path) =>
+        ts.transpileModule(source, {
+          fileName: path,
+          compilerOptions: {
+            module: ts.ModuleKind.CommonJS,
+            target: ts.ScriptTarget.ES2017,
+            esModuleInterop: true,
+          },
+        }).outputText;
+    } catch (error) {
+      throw new ConfigError(
+        `Cannot load TypeScript config: provide a transpile hook or install typescript`
+      );
+    }
+  }
+
+  /**
+   * Resolves the path of the environment-specific sibling of a config file.
+   *
+   * - The sibling is named after the environment: `mega.config.js` becomes `mega.config.production.js`.
+   * - The environment is taken from the `environment` property or `process.env.NODE_ENV`.
+   *
+   * @param path The path to the base config file.
+   * @returns The path of the sibling, or `undefined` if there is no environment.
+   */
+  private static sibling(path: string): string | undefined {
+    const environment = isStr(this.environment)
+      ? this.environment
+      : process.env.NODE_ENV;
+
+    if (!isStr(environment) || environment === '') return undefined;
+
+    const { dir, name, ext } = parse(path);
+    return join(dir, `${name}.${environment}${ext}`);
+  }
+
+  /**
+   * Merges the environment-specific sibling of a config file over the given config.
+   *
+   * - The sibling is named after the environment: `mega.config.js` becomes `mega.config.production.js`.
+   * - The environment is taken from the `environment` property or `process.env.NODE_ENV`.
+   * - If there is no environment or the sibling file is missing, the config is returned as is.
+   *
+   * @param path The path to the base config file.
+   * @param config The base configuration.
+   * @param trail The provenance of the configuration, the keys set by the sibling are added to it.
+   * @returns A Promise that resolves with the merged configuration.
+   * @throws `ConfigError` if the merged configuration is not a plain object.
+   */
+  private static extend(
+    path: string,
+    config: unknown,
+    trail: Array<Trace>
+  ): Promise<Record<string, unknown>> {
+    const sibling = this.sibling(path);
+
+    if (isUndefined(sibling) || !fs.existsSync(sibling)) {
+      return new Promise((resolve) => resolve(this.verify(path, config)));
+    }
+
+    return this.read(sibling).then((extension) => {
+      this.record(trail, extension, { type: 'file', path: sibling });
+      return this.verify(sibling, merge(config, extension, this.arrays));
+    });
+  }
+
+  /**
+   * Merges the environment-specific sibling of a config file over the given config synchronously.
+   *
+   * @param path The path to the base config file.
+   * @param config The base configuration.
+   * @param trail The provenance of the configuration, the keys set by the sibling are added to it.
+   * @returns The merged configuration.
+   * @throws `ConfigError` if the merged configuration is not a plain object.
+   */
+  private static extendSync(
+    path: string,
+    config: unknown,
+    trail: Array<Trace>
+  ): Record<string, unknown> {
+    const sibling = this.sibling(path);
+
+    if (isUndefined(sibling) || !fs.existsSync(sibling)) {
+      return this.verify(path, config);
+    }
+
+    const extension = this.readSync(sibling);
+
+    this.record(trail, extension, { type: 'file', path: sibling });
+    return this.verify(sibling, merge(config, extension, this.arrays));
+  }
+
+  /**
+   * Checks that the configuration of a config file is a plain object.
+   *
+   * @param path The path to the config file the configuration comes from.
+   * @param config The configuration.
+   * @returns The configuration.
+   * @throws `ConfigError` if the configuration is not a plain object, e.g. an empty YAML file.
+   */
+  private static verify(
+    path: string,
+    config: unknown
+  ): Record<string, unknown> {
+    if (isPlain(config)) return config;
+    throw new ConfigError(`Invalid config in ${path}: ${String(config)}`);
+  }
+
+  /**
+   * Builds the configuration of a config file before validation.
+   *
+   * - Reads the config file and merges it over a copy of the default configuration in `merge` mode.
+   * - Merges the environment-specific sibling of the config file.
+   * - Applies the environment variable overlay.
+   *
+   * @param path The path to the config file.
+   * @param trail The provenance of the configuration, filled in the order the sources are applied.
+   * @returns A Promise that resolves with the configuration to validate.
+   */
+  private static compose(
+    path: string,
+    trail: Array<Trace>
+  ): Promise<Record<string, unknown>> {
+    return this.read(path)
+      .then((config) => this.prefill(path, config, trail))
+      .then((config) => this.extend(path, config, trail))
+      .then((config) => this.variables(config, trail));
+  }
+
+  /**
+   * Builds the configuration of a config file before validation synchronously.
+   *
+   * @param path The path to the config file.
+   * @param trail The provenance of the configuration, filled in the order the sources are applied.
+   * @returns The configuration to validate.
+   */
+  private static composeSync(
+    path: string,
+    trail: Array<Trace>
+  ): Record<string, unknown> {
+    const config = this.prefill(path, this.readSync(path), trail);
+    return this.variables(this.extendSync(path, config, trail), trail);
+  }
+
+  /**
+   * Merges a configuration over a copy of the default configuration in `merge` mode.
+   *
+   * @param path The path to the config file.
+   * @param config The configuration read from the config file.
+   * @param trail The provenance of the configuration, the keys set by the default and the file are added to it.
+   * @returns The merged configuration, or the given one in `replace` mode.
+   */
+  private static prefill(
+    path: string,
+    config: unknown,
+    trail: Array<Trace>
+  ): unknown {
+    const merged = this.mode === 'merge' && isDefined(this.default);
+
+    if (merged) this.record(trail, this.default, { type: 'default' });
+    this.record(trail, config, { type: 'file', path });
+
+    return merged ? merge(clone(this.default), config, this.arrays) : config;
+  }
+
+  /**
+   * Adds the leaves of a configuration layer to its provenance.
+   *
+   * @param trail The provenance of the configuration.
+   * @param layer The values set by the source.
+   * @param source The source of the values.
+   */
+  private static record(
+    trail: Array<Trace>,
+    layer: unknown,
+    source: Source
+  ): void {
+    leaves(layer).forEach((key) => trail.push({ key, source }));
+  }
+
+  /**
+   * Loads a config file with one of the given extensions.
+   *
+   * - The config file is composed with the default configuration, its environment-specific sibling
+   *   and the environment variables, then validated and cached.
+   * - The `beforeLoad` hooks run before the file is read, and the `afterValidate` hooks after validation.
+   * - Secret values are hidden and, if `freeze` is enabled, the configuration is deep-frozen before it's cached.
+   * - Errors are reported to the `onError` hooks with the stage where they happened.
+   * - If the config file does not exist this method resolves with the default configuration if provided.
+   *
+   * @param path The path to the config file.
+   * @param extensions The accepted file extensions.
+   * @param format The name of the format used in error messages.
+   * @returns A Promise that resolves with the loaded configuration.
+   * @throws `ConfigError` if the path is invalid or if loading the configuration fails.
+   */
+  private static loadFile(
+    path: string,
+    extensions: Array<string>,
+    format: string
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      if (!isStr(path)) {
+        const error = new ConfigError(`Invalid path: ${String(path)}`);
+        return reject(this.fail(error, 'resolve'));
+      }
+
+      if (!extensions.includes(extname(path).toLowerCase())) {
+        const error = new ConfigError(`Invalid ${format} path: ${path}`);
+        return reject(this.fail(error, 'resolve'));
+      }
+
+      let stage: Stage = 'read';
+
+      const fail = (error: Error) => {
+        // Syntax errors are reported as parse errors
+        const syntax =
+          error instanceof ParseError || error instanceof SyntaxError;
+
+        reject(this.fail(error, stage === 'read' && syntax ? 'parse' : stage));
+      };
+
+      const trail: Array<Trace> = [];
+
+      const load = () =>
+        this.compose(path, trail)
+          .then((config) => {
+            stage = 'validate';
+            return this.check(config, false, trail);
+          })
+          .then((config) => this.finalize(config, trail))
+          .then((config) => {
+            this.config = this.seal(config);
+            this.loaded = path;
+            this.provenance = trail;
+            return resolve(this.config);
+          })
+          .catch(fail);
+
+      this.hooksOf('beforeLoad')
+        .reduce(
+          (promise, hook) => promise.then(() => hook(path, format)),
+          Promise.resolve()
+        )
+        .then(() =>
+          this.exist(path).then(load, (error) => {
+            // resolve with default config
+            if (this.default) return resolve(this.fallback(path));
+
+            // or reject
+            fail(error);
+          })
+        )
+        .catch(fail);
+    });
+  }
+
+  /**
+   * Loads a config file with one of the given extensions synchronously.
+   *
+   * - It goes through the same steps, hooks, caching and default fallback as `loadFile`.
+   * - Hooks and validators must be synchronous.
+   *
+   * @param path The path to the config file.
+   * @param extensions The accepted file extensions.
+   * @param format The name of the format used in error messages.
+   * @returns The loaded configuration.
+   * @throws `ConfigError` if the path is invalid, if loading the configuration fails, or if a hook or validator returns a promise.
+   */
+  private static loadFileSync(
+    path: string,
+    extensions: Array<string>,
+    format: string
+  ): unknown {
+    if (!isStr(path)) {
+      const error = new ConfigError(`Invalid path: ${String(path)}`);
+      throw this.fail(error, 'resolve');
+    }
+
+    if (!extensions.includes(extname(path).toLowerCase())) {
+      const error = new ConfigError(`Invalid ${format} path: ${path}`);
+      throw this.fail(error, 'resolve');
+    }
+
+    let stage: Stage = 'read';
+
+    try {
+      this.hooksOf('beforeLoad').forEach((hook) =>
+        this.settle(hook(path, format), 'A beforeLoad hook')
+      );
+
+      try {
+        fs.accessSync(path);
+      } catch (error) {
+        // return the default config
+        if (this.default) return this.fallback(path);
+
+        // or throw
+        throw error;
+      }
+
+      const trail: Array<Trace> = [];
+      const config = this.composeSync(path, trail);
+
+      stage = 'validate';
+      const valid = this.check(config, true, trail) as Record<string, unknown>;
+
+      this.config = this.seal(this.finalizeSync(valid, trail));
+      this.loaded = path;
+      this.provenance = trail;
+      return this.config;
+    } catch (error) {
+      // Syntax errors are reported as parse errors
+      const syntax =
+        error instanceof ParseError || error instanceof SyntaxError;
+      throw this.fail(error, stage === 'read' && syntax ? 'parse' : stage);
+    }
+  }
+
+  /**
+   * Loads and merges the `sources`, then validates and caches the configuration.
+   *
+   * - The sources are merged in order over the default configuration, if provided.
+   * - The configuration is validated, finalized and sealed like a config file.
+   * - Errors are reported to the `onError` hooks with the stage where they happened.
+   *
+   * @param sync Whether sources, validators and hooks must be synchronous, as in `loadSync`.
+   * @returns The loaded configuration, or a Promise of it if `sync` is disabled.
+   * @throws `ConfigError` if the sources are invalid, or if a source, validator or hook fails.
+   */
+  private static combine(sync: boolean): unknown {
+    const trail: Array<Trace> = [];
+    let stage: Stage = 'read';
+
+    const fail = (error: Error): never => {
+      // Syntax errors are reported as parse errors
+      const syntax =
+        error instanceof ParseError || error instanceof SyntaxError;
+      throw this.fail(error, stage === 'read' && syntax ? 'parse' : stage);
+    };
+
+    try {
+      const result = chain(this.gather(sync, trail), (config) => {
+        stage = 'validate';
+
+        return chain(this.check(config, sync, trail), (config: any) =>
+          chain(
+            sync
+              ? this.finalizeSync(config, trail)
+              : this.finalize(config, trail),
+            (config) => {
+              this.config = this.seal(config);
+              this.provenance = trail;
+              return this.config;
+            }
+          )
+        );
+      });
+
+      return isPromise(result) ? result.catch(fail) : result;
+    } catch (error) {
+      // Asynchronous failures are rejected, like in loadFile
+      if (!sync) return Promise.resolve().then(() => fail(error));
+      return fail(error);
+    }
+  }
+
+  /**
+   * Loads the `sources` in order and merges their values over the default configuration.
+   *
+   * @param sync Whether the sources must be synchronous.
+   * @param trail The provenance of the configuration, the keys set by each source are added to it.
+   * @returns The merged configuration, or a Promise of it if a source is asynchronous.
+   * @throws `ConfigError` if the sources or the values they load are invalid.
+   */
+  private static gather(
+    sync: boolean,
+    trail: Array<Trace>
+  ): Record<string, unknown> | Promise<Record<string, unknown>> {
+    const list = this.sources;
+
+    const valid = (source: ConfigSource) =>
+      isObj(source) && isStr(source.name) && isFunc(source.load);
+
+    if (!isArr(list) || !list.every(valid)) {
+      throw new ConfigError(`Invalid sources: ${String(list)}`);
+    }
+
+    const base = isDefined(this.default) ? clone(this.default) : {};
+    this.record(trail, base, { type: 'default' });
+
+    return list.reduce<
+      Record<string, unknown> | Promise<Record<string, unknown>>
+    >(
+      (config, source) =>
+        chain(config, (config) => {
+          const name = `Source "${source.name}"`;
+          const values = source.load(clone(config));
+
+          return chain(sync ? this.settle(values, name) : values, (values) => {
+            if (isUndefined(values)) return config;
+
+            if (!isPlain(values)) {
+              throw new ConfigError(`${name} loaded invalid values: ${values}`);
+            }
+
+            this.record(
+              trail,
+              values,
+              isFunc(source.origin)
+                ? source.origin()
+                : { type: 'source', name: source.name }
+            );
+            return merge(config, values, this.arrays);
+          });
+        }),
+      base
+    );
+  }
+
+  /**
+   * Creates a source that reads a config file, in any format supported by `load`.
+   *
+   * - Relative paths are resolved from the project root when the source is loaded.
+   * - The file is read synchronously, except `.mjs` files which can't be used with `loadSync`.
+   * - A missing file is an error, unless `optional` is enabled.
+   * - Its values are recorded as coming from the file, so `explain` reports their lines.
+   *
+   * @param path The path to the config file.
+   * @param optional Whether the file can be missing, e.g. a local override file.
+   * @returns The config source.
+   * @throws `ConfigError` if the path is invalid.
+   */
+  public static fileSource(
+    path: string,
+    optional: boolean = false
+  ): ConfigSource {
+    if (!isStr(path)) throw new ConfigError(`Invalid path: ${String(path)}`);
+
+    const resolve = () => absolute(this.resolveSync(), path);
+
+    return {
+      name: path,
+      load: () => {
+        const file = resolve();
+
+        if (optional && !fs.existsSync(file)) return undefined;
+        if (extname(file).toLowerCase() === '.mjs') return this.read(file);
+        return this.readSync(file);
+      },
+      watch: (listener) => {
+        const file = resolve();
+
+        // Watch the directory, so files replaced by editors are still watched
+        const watcher = fs
+          .watch(dirname(file), (event, name) => {
+            if (!name || name.toString() === basename(file)) listener();
+          })
+          .on('error', () => watcher.close());
+
+        return () => watcher.close();
+      },
+      origin: () => ({ type: 'file', path: resolve() }),
+    };
+  }
+
+  /**
+   * Creates a source that reads the environment variables starting with a prefix.
+   *
+   * Variables are read like the `prefix` overlay: `APP_PATHS__MODELS` sets `paths.models`,
+   * and keys match the configuration merged from the previous sources case-insensitively.
+   *
+   * @param prefix The prefix of the variables, e.g. `APP_`.
+   * @returns The config source.
+   * @throws `ConfigError` if the prefix is invalid.
+   */
+  public static envSource(prefix: string): ConfigSource {
+    if (!isStr(prefix) || prefix === '') {
+      throw new ConfigError(`Invalid prefix: ${String(prefix)}`);
+    }
+
+    return {
+      name: `env:${prefix}`,
+      load: (config) => {
+        const trail: Array<Trace> = [];
+        const overlaid = this.variables(config, trail, prefix);
+
+        // Keep only the values set by the variables
+        return trail.reduce((values, { key }) => {
+          const keys = key.split('.');
+          const last = keys.pop();
+
+          const target = keys.reduce((target, key) => {
+            if (!isPlain(target[key])) target[key] = {};
+            return target[key] as Record<string, unknown>;
+          }, values);
+
+          target[last] = keys
+            .concat(last)
+            .reduce((value: any, key) => value[key], overlaid);
+
+          return values;
+        }, {} as Record<string, unknown>);
+      },
+    };
+  }
+
+  /**
+   * Creates a source that holds an object, e.g. values computed in code.
+   *
+   * The object is copied each time it's loaded.
+   *
+   * @param values The configuration values.
+   * @param name The name of the source, `object` by default.
+   * @returns The config source.
+   * @throws `ConfigError` if the values are not a plain object.
+   */
+  public static objectSource(
+    values: Record<string, unknown>,
+    name: string = 'object'
+  ): ConfigSource {
+    if (!isPlain(values)) {
+      throw new ConfigError(`Invalid values: ${String(values)}`);
+    }
+
+    return { name, load: () => clone(values) };
+  }
+
+  /**
+   * Creates a source that reads a key of the `package.json` file in the project root.
+   *
+   * A missing file or key loads no values.
+   *
+   * @param property The key holding the configuration, e.g. `megaorm`.
+   * @returns The config source.
+   * @throws `ConfigError` if the property is invalid.
+   */
+  public static packageSource(property: string): ConfigSource {
+    if (!isStr(property) || property === '') {
+      throw new ConfigError(`Invalid property: ${String(property)}`);
+    }
+
+    const file = this.fileSource('package.json', true);
+
+    return {
+      name: `package.json:${property}`,
+      load: () => {
+        const path = join(this.resolveSync(), 'package.json');
+        if (!fs.existsSync(path)) return undefined;
+
+        const content = fs.readFileSync(path, 'utf-8');
+        const pkg = parseFile(
+          content,
+          path,
+          (json) => parseJSON(json, true),
+          'JSON',
+          isUndefined(this.secrets)
+        );
+
+        return isPlain(pkg) ? pkg[property] : undefined;
+      },
+      watch: file.watch,
+    };
+  }
+
+  /**
+   * Caches the default configuration in place of a missing config file.
+   *
+   * - The environment variable overlay is applied, but the validators and hooks are not run.
+   * - The missing file is kept as the loaded file, so `reload` and `watch` pick it up once it's created.
+   *
+   * @param path The path to the missing config file.
+   * @returns The default configuration.
+   */
+  private static fallback(path: string): Record<string, unknown> {
+    const trail: Array<Trace> = [];
+    const config = clone(this.default);
+
+    this.record(trail, config, { type: 'default' });
+
+    this.config = this.seal(this.variables(config, trail));
+    this.loaded = path;
+    this.provenance = trail;
+    return this.config;
+  }
+
+  /**
+   * Runs the `afterValidate` hooks in order on the validated configuration.
+   *
+   * @param config The validated configuration.
+   * @param trail The provenance of the configuration, the keys changed by each hook are added to it.
+   * @returns A Promise that resolves with the configuration returned by the hooks, or the given one.
+   */
+  private static finalize(
+    config: Record<string, unknown>,
+    trail: Array<Trace>
+  ): Promise<Record<string, unknown>> {
+    return this.hooksOf('afterValidate').reduce(
+      (promise, hook, index) =>
+        promise.then((config) => {
+          const before = clone(config);
+
+          return Promise.resolve(hook(config)).then((result) =>
+            this.patch(trail, before, isUndefined(result) ? config : result, {
+              type: 'hook',
+              name: hook.name || `#${index + 1}`,
+            })
+          );
+        }),
+      Promise.resolve(config)
+    );
+  }
+
+  /**
+   * Runs the `afterValidate` hooks in order on the validated configuration synchronously.
+   *
+   * @param config The validated configuration.
+   * @param trail The provenance of the configuration, the keys changed by each hook are added to it.
+   * @returns The configuration returned by the hooks, or the given one.
+   * @throws `ConfigError` if a hook returns a promise.
+   */
+  private static finalizeSync(
+    config: Record<string, unknown>,
+    trail: Array<Trace>
+  ): Record<string, unknown> {
+    return this.hooksOf('afterValidate').reduce((config, hook, index) => {
+      const before = clone(config);
+      const result = this.settle(hook(config), 'An afterValidate hook');
+
+      return this.patch(trail, before, isUndefined(result) ? config : result, {
+        type: 'hook',
+        name: hook.name || `#${index + 1}`,
+      });
+    }, config);
+  }
+
+  /**
+   * Adds the keys changed by a step, such as a hook, to the provenance of a configuration.
+   *
+   * @param trail The provenance of the configuration.
+   * @param before A copy of the configuration before the step.
+   * @param after The configuration after the step.
+   * @param source The source of the changes.
+   * @returns The configuration after the step.
+   */
+  private static patch(
+    trail: Array<Trace>,
+    before: Record<string, unknown>,
+    after: Record<string, unknown>,
+    source: Source
+  ): Record<string, unknown> {
+    changes(before, after).forEach((key) => trail.push({ key, source }));
+    return after;
+  }
+
+  /**
+   * Prepares a configuration before it's handed out by `load` and `reload`.
+   *
+   * - Secret values are hidden when the configuration is inspected or serialized.
+   * - The configuration is deep-frozen if `freeze` is enabled.
+   *
+   * @param config The validated configuration.
+   * @returns The same configuration.
+   * @throws `ConfigError` if the secret patterns are invalid.
+   */
+  private static seal(
+    config: Record<string, unknown>
+  ): Record<string, unknown> {
+    if (isDefined(this.secrets)) {
+      if (!isArrOfStr(this.secrets)) {
+        throw new ConfigError(`Invalid secrets: ${String(this.secrets)}`);
+      }
+
+      protect(config, this.secrets);
+    }
+
+    return this.freeze === true ? deepFreeze(config) : config;
+  }
+
+  /**
+   * Loads a JSON config file (`.json`, `.jsonc` or `.json5`).
+   *
+   * - This method reads and parses the JSON config file.
+   * - `.jsonc` and `.json5` files accept comments, trailing commas, unquoted keys and single quotes.
+   * - In `merge` mode, the config file is deep-merged over the default configuration.
+   * - The environment-specific sibling (e.g. `config.production.json`) is merged over it if it exists.
+   * - If the config file does not exist this method resolves with the default configuration if provided.
+   *
+   * @param path The path to the JSON config file.
+   * @returns A Promise that resolves with the parsed JSON configuration.
+   * @throws `ConfigError` if there is an issue reading the file, or with the line, column and code frame of a syntax error.
+   */
+  public static loadJSON(path: string): Promise<unknown> {
+    return this.loadFile(path, ['.json', '.jsonc', '.json5'], 'JSON');
+  }
+
+  /**
+   * Loads a YAML config file (`.yaml` or `.yml`), or an rc file without extension such as `.megarc`.
+   *
+   * - This method reads and parses the YAML config file.
+   * - Since YAML flow collections are a superset of JSON, rc files can also be written in JSON.
+   * - Supports mappings, sequences, flow collections, typed scalars, block scalars (`|` and `>`) and comments.
+   * - In `merge` mode, the config file is deep-merged over the default configuration.
+   * - The environment-specific sibling (e.g. `config.production.yaml`) is merged over it if it exists.
+   * - If the config file does not exist this method resolves with the default configuration if provided.
+   *
+   * @param path The path to the YAML config file.
+   * @returns A Promise that resolves with the parsed YAML configuration.
+   * @throws `ConfigError` if there is an issue reading the file, or with the line and column of a syntax error.
+   */
+  public static loadYAML(path: string): Promise<unknown> {
+    return this.loadFile(path, ['.yaml', '.yml', ''], 'YAML');
+  }
+
+  /**
+   * Loads a TOML config file.
+   *
+   * - This method reads and parses the TOML config file.
+   * - Supports tables, arrays of tables, inline tables, dotted keys, typed scalars and comments.
+   * - Offset date-times, local date-times and local dates are parsed as `Date` objects, local times as strings.
+   * - In `merge` mode, the config file is deep-merged over the default configuration.
+   * - The environment-specific sibling (e.g. `config.production.toml`) is merged over it if it exists.
+   * - If the config file does not exist this method resolves with the default configuration if provided.
+   *
+   * @param path The path to the TOML config file.
+   * @returns A Promise that resolves with the parsed TOML configuration.
+   * @throws `ConfigError` if there is an issue reading the file, or with the line and column of a syntax error.
+   */
+  public static loadTOML(path: string): Promise<unknown> {
+    return this.loadFile(path, ['.toml'], 'TOML');
+  }
+
+  /**
+   * Loads a JavaScript config file (`.js`, `.cjs` or `.mjs`).
+   *
+   * - This method loads CommonJS config files using `require()` and ES modules using `import()`.
+   * - The `default` export of ES modules is unwrapped.
+   * - In `merge` mode, the config file is deep-merged over the default configuration.
+   * - The environment-specific sibling (e.g. `config.production.js`) is merged over it if it exists.
+   * - If the config file does not exist this method resolves with the default configuration if provided.
+   *
+   * @param path The path to the JavaScript config file.
+   * @returns A Promise that resolves with the loaded configuration.
+   * @throws `ConfigError` if there is an issue requiring or evaluating the JavaScript file.
+   */
+  public static loadJS(path: string): Promise<unknown> {
+    return this.loadFile(path, ['.js', '.cjs', '.mjs'], 'JS');
+  }
+
+  /**
+   * Loads a TypeScript config file.
+   *
+   * - This method transpiles the config file using the `transpile` hook, or `typescript` if installed.
+   * - The transpiled code is evaluated as a CommonJS module and its `default` export is unwrapped.
+   * - In `merge` mode, the config file is deep-merged over the default configuration.
+   * - The environment-specific sibling (e.g. `config.production.ts`) is merged over it if it exists.
+   * - If the config file does not exist this method resolves with the default configuration if provided.
+   *
+   * @param path The path to the TypeScript config file.
+   * @returns A Promise that resolves with the loaded configuration.
+   * @throws `ConfigError` if there is an issue transpiling or evaluating the TypeScript file.
+   */
+  public static loadTS(path: string): Promise<unknown> {
+    return this.loadFile(path, ['.ts'], 'TS');
+  }
+
+  /**
+   * Loads a JSON config file (`.json`, `.jsonc` or `.json5`) synchronously.
+   *
+   * - It shares the caching, default fallback, hooks and validators of `loadJSON`.
+   * - Hooks and validators must be synchronous.
+   *
+   * @param path The path to the JSON config file.
+   * @returns The parsed JSON configuration.
+   * @throws `ConfigError` if there is an issue reading the file, or if a hook or validator returns a promise.
+   */
+  public static loadJSONSync(path: string): unknown {
+    return this.loadFileSync(path, ['.json', '.jsonc', '.json5'], 'JSON');
+  }
+
+  /**
+   * Loads a CommonJS config file (`.js` or `.cjs`) synchronously.
+   *
+   * - It shares the caching, default fallback, hooks and validators of `loadJS`.
+   * - Hooks and validators must be synchronous.
+   * - ES modules can't be loaded synchronously, use `loadJS` instead.
+   *
+   * @param path The path to the JavaScript config file.
+   * @returns The loaded configuration.
+   * @throws `ConfigError` if there is an issue requiring the file, if it's an ES module, or if a hook or validator returns a promise.
+   */
+  public static loadJSSync(path: string): unknown {
+    return this.loadFileSync(path, ['.js', '.cjs', '.mjs'], 'JS');
+  }
+
+  /**
+   * Loads a config file using the loader matching its extension.
+   *
+   * In discovery mode, errors not mentioning the config file end with its path.
+   *
+   * @param path The path to the config file.
+   * @returns A Promise that resolves with the loaded configuration.
+   * @throws `ConfigError` if the file extension is unsupported.
+   */
+  private static dispatch(path: string): Promise<unknown> {
+    return this.route(path).catch((error) => {
+      throw this.annotate(error, path);
+    });
+  }
+
+  /**
+   * Loads a config file synchronously using the loader matching its extension.
+   *
+   * @param path The path to the config file.
+   * @returns The loaded configuration.
+   * @throws `ConfigError` if the file extension is unsupported.
+   */
+  private static dispatchSync(path: string): unknown {
+    try {
+      return this.routeSync(path);
+    } catch (error) {
+      throw this.annotate(error, path);
+    }
+  }
+
+  /**
+   * Names the discovered config file in an error not mentioning it.
+   *
+   * @param error The loading error.
+   * @param path The path to the config file.
+   * @returns The same error.
+   */
+  private static annotate(error: Error, path: string): Error {
+    if (isDefined(this.search()) && !error.message.includes(path)) {
+      error.message = `${error.message}\n\nConfig file: ${path}`;
+    }
+
+    return error;
+  }
+
+  /**
+   * Loads a config file using the loader matching its extension.
+   *
+   * @param path The path to the config file.
+   * @returns A Promise that resolves with the loaded configuration.
+   * @throws `ConfigError` if the file extension is unsupported.
+   */
+  private static route(path: string): Promise<unknown> {
+    const extension = extname(path).toLowerCase();
+
+    // Load JS config
+    if (['.js', '.cjs', '.mjs'].includes(extension)) return this.loadJS(path);
+
+    // Load TS config
+    if (extension === '.ts') return this.loadTS(path);
+
+    // Load JSON config
+    if (['.json', '.jsonc', '.json5'].includes(extension)) {
+      return this.loadJSON(path);
+    }
+
+    // Load YAML config and rc files
+    if (['.yaml', '.yml', ''].includes(extension)) return this.loadYAML(path);
+
+    // Load TOML config
+    if (extension === '.toml') return this.loadTOML(path);
+
+    const error = new ConfigError(
+      `Unsupported config file extention: ${extension}`
+    );
+
+    return Promise.reject(this.fail(error, 'resolve'));
+  }
+
+  /**
+   * Loads a config file synchronously using the loader matching its extension.
+   *
+   * @param path The path to the config file.
+   * @returns The loaded configuration.
+   * @throws `ConfigError` if the file extension is unsupported.
+   */
+  private static routeSync(path: string): unknown {
+    const extension = extname(path).toLowerCase();
+
+    // Load JS config
+    if (['.js', '.cjs', '.mjs'].includes(extension)) {
+      return this.loadJSSync(path);
+    }
+
+    // Load TS config
+    if (extension === '.ts') return this.loadFileSync(path, ['.ts'], 'TS');
+
+    // Load JSON config
+    if (['.json', '.jsonc', '.json5'].includes(extension)) {
+      return this.loadJSONSync(path);
+    }
+
+    // Load YAML config and rc files
+    if (['.yaml', '.yml', ''].includes(extension)) {
+      return this.loadFileSync(path, ['.yaml', '.yml', ''], 'YAML');
+    }
+
+    // Load TOML config
+    if (extension === '.toml') {
+      return this.loadFileSync(path, ['.toml'], 'TOML');
+    }
+
+    const error = new ConfigError(
+      `Unsupported config file extention: ${extension}`
+    );
+
+    throw this.fail(error, 'resolve');
+  }
+
+  /**
+   * Resolves the path of the config file to load.
+   *
+   * - Without `candidates`, this is the `file` in the project root.
+   * - Without `file` either, the default candidates are searched.
+   * - Otherwise, the candidates are searched in order in the project root, or in every directory
+   *   from `process.cwd()` up to the project root if `upward` is enabled.
+   * - The first existing candidate of the closest directory wins, and a warning is emitted
+   *   if other candidates exist in the same directory.
+   * - If no candidate exists, the first candidate in the project root is used so the default configuration applies.
+   *
+   * @returns The path to the config file.
+   * @throws `ConfigError` if the candidates are invalid, or if no candidate exists and there is no default configuration.
+   */
+  private static locate(): string {
+    const root = this.resolveSync();
+    const candidates = this.search();
+
+    if (isUndefined(candidates)) return join(root, this.file);
+
+    if (!isArrOfStr(candidates) || candidates.length === 0) {
+      throw new ConfigError(`Invalid candidates: ${String(candidates)}`);
+    }
+
+    const directories = this.directories(root);
+
+    for (const directory of directories) {
+      const found = candidates.filter((candidate) =>
+        this.candidate(join(directory, candidate))
+      );
+
+      if (found.length > 1) {
+        process.emitWarning(
+          `Multiple config files found in ${directory}: ${found.join(
+            ', '
+          )}. Using ${found[0]}`,
+          'ConfigWarning'
+        );
+      }
+
+      if (found.length > 0) return join(directory, found[0]);
+    }
+
+    if (this.default) return join(root, candidates[0]);
+
+    throw new ConfigError(
+      `No config file found in ${directories.join(
+        ', '
+      )}, searched: ${candidates.join(', ')}`
+    );
+  }
+
+  /**
+   * Resolves the config file candidates to search.
+   *
+   * @returns The `candidates`, the default candidates if neither `file` nor `candidates` are set, or `undefined` to load `file`.
+   */
+  private static search(): ReadonlyArray<string> | undefined {
+    if (isDefined(this.candidates)) return this.candidates;
+    return isUndefined(this.file) ? CANDIDATES : undefined;
+  }
+
+  /**
+   * Resolves the key holding the configuration in `package.json` files.
+   *
+   * @returns The `property`, `megaorm` if the default candidates are searched, or `undefined`.
+   */
+  private static key(): string | undefined {
+    if (isDefined(this.property)) return this.property;
+    return this.search() === CANDIDATES ? PROPERTY : undefined;
+  }
+
+  /**
+   * Lists the directories searched for config file candidates, closest first.
+   *
+   * @param root The project root directory.
+   * @returns The directories from `process.cwd()` up to the project root if `upward` is enabled, or the project root.
+   */
+  private static directories(root: string): Array<string> {
+    if (this.upward !== true) return [root];
+
+    const directories: Array<string> = [];
+    let directory = process.cwd();
+
+    for (;;) {
+      directories.push(directory);
+
+      if (directory === root) return directories;
+
+      // The working directory is outside the project
+      if (directory === dirname(directory)) return [root];
+
+      directory = dirname(directory);
+    }
+  }
+
+  /**
+   * Checks whether a config file candidate can be loaded.
+   *
+   * @param path The path to the candidate.
+   * @returns `true` if the candidate exists, and for `package.json` files, if it has the `property` key.
+   */
+  private static candidate(path: string): boolean {
+    if (!fs.existsSync(path)) return false;
+    if (basename(path) !== 'package.json') return true;
+
+    const key = this.key();
+    if (!isStr(key)) return false;
+
+    try {
+      const pkg = JSON.parse(fs.readFileSync(path, 'utf-8'));
+      return isObj(pkg) && isDefined(pkg[key]);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Loads the config file or resolves with a default configuration if the config file is missing.
+   *
+   * - If the configuration is already loaded, it resolves immediately with the cached configuration.
+   * - Concurrent calls share the in-flight load, so the file is read and validated once.
+   * - If `candidates` are defined, the first existing candidate is loaded instead of `file`.
+   * - If `sources` are defined, they are merged in order over the default configuration instead.
+   * - If the config file does not exist this method resolves with the default configuration if provided,
+   *   which is cached like a loaded config file.
+   *
+   * @template T The expected structure of the configuration object.
+   * @returns A Promise that resolves with the loaded configuration or the default configuration.
+   * @throws `ConfigError` if the file format is unsupported or if loading the configuration fails.
+   */
+  public static load<T extends Record<string, unknown>>(): Promise<T> {
+    // Return the cached config if already loaded
+    const config = this.own('config');
+    if (isDefined(config)) return Promise.resolve(config as T);
+
+    // Share the in-flight load or reload
+    const loading = this.own('loading') || this.own('reloading');
+    if (isDefined(loading)) return loading as Promise<T>;
+
+    return this.track('loading', () => {
+      // Merge the sources instead of a single config file
+      if (isDefined(this.sources)) {
+        return this.combine(false) as Promise<unknown>;
+      }
+
+      let path: string;
+
+      try {
+        path = this.locate();
+      } catch (error) {
+        return Promise.reject(this.fail(error, 'resolve'));
+      }
+
+      return this.dispatch(path);
+    }) as Promise<T>;
+  }
+
+  /**
+   * Loads the config file synchronously and returns its contents.
+   *
+   * - It shares the cache of `load`: the cached configuration is returned if already loaded,
+   *   and the configuration loaded here is returned by later `load` calls.
+   * - It resolves the config file, falls back on the default configuration and runs the hooks
+   *   and validators just like `load`.
+   * - Hooks and validators must be synchronous, and ES module config files can't be loaded.
+   *
+   * @template T The expected structure of the configuration object.
+   * @returns The loaded configuration or the default configuration.
+   * @throws `ConfigError` if loading the configuration fails, or if a hook or validator returns a promise.
+   */
+  public static loadSync<T extends Record<string, unknown>>(): T {
+    // Return the cached config if already loaded
+    const config = this.own('config');
+    if (isDefined(config)) return config as T;
+
+    // Merge the sources instead of a single config file
+    if (isDefined(this.sources)) return this.combine(true) as T;
+
+    let path: string;
+
+    try {
+      path = this.locate();
+    } catch (error) {
+      throw this.fail(error, 'resolve');
+    }
+
+    return this.dispatchSync(path) as T;
+  }
+
+  /**
+   * Resolves the config file that is loaded, or the one `load` would load.
+   *
+   * @returns The path to the config file, or `undefined` if the configuration is loaded from `sources`.
+   * @throws `ConfigError` if the config file can't be resolved.
+   */
+  public static which(): string | undefined {
+    if (isDefined(this.sources)) return undefined;
+
+    const loaded = this.own('loaded');
+    return isStr(loaded) ? loaded : this.locate();
+  }
+
+  /**
+   * Reloads the config file and returns its contents.
+   * This method attempts to reload a previously loaded config file.
+   *
+   * - Concurrent calls share the in-flight reload.
+   * - A reload started during a `load` waits for it to settle first.
+   * - The `onReload` hooks are called with the previous and the reloaded configuration.
+   *   Errors thrown by the hooks are ignored, as the reloaded configuration is already cached.
+   * - If `sources` are defined, they are all loaded and merged again.
+   *
+   * @template T The expected structure of the loaded configuration.
+   * @returns A promise that resolves to the reloaded configuration object.
+   * @throws `ConfigError` if no file is loaded or the file extension is unsupported.
+   */
+  public static reload<T extends Record<string, unknown>>(): Promise<T> {
+    const reloading = this.own('reloading');
+    if (isDefined(reloading)) return reloading as Promise<T>;
+
+    const loading: Promise<unknown> = isDefined(this.own('loading'))
+      ? this.own('loading').catch(() => undefined)
+      : Promise.resolve();
+
+    return this.track('reloading', () =>
+      loading.then(() => {
+        const loaded = this.own('loaded');
+        const sourced = isDefined(this.sources);
+
+        if (!sourced && !isStr(loaded)) {
+          throw this.fail(new ConfigError('Nothing to reload'), 'resolve');
+        }
+
+        const previous = this.own('config');
+        const reloaded = sourced
+          ? (this.combine(false) as Promise<unknown>)
+          : this.dispatch(loaded);
+
+        return reloaded.then((config) => {
+          this.hooksOf('onReload').forEach((hook) => {
+            try {
+              hook(previous, config);
+            } catch {
+              // The reloaded config is already cached, so the reload succeeded
+            }
+          });
+
+          return config;
+        });
+      })
+    ) as Promise<T>;
+  }
+
+  /**
+   * Runs a load or a reload and keeps it as the in-flight promise until it settles.
+   *
+   * The in-flight promise is cleared even if the task fails, so the next call can retry.
+   *
+   * @param key The property holding the in-flight promise.
+   * @param task The load or reload to run.
+   * @returns The in-flight promise.
+   */
+  private static track(
+    key: 'loading' | 'reloading',
+    task: () => Promise<unknown>
+  ): Promise<unknown> {
+    const clear = () => {
+      if (this.own(key) === promise) this[key] = undefined;
+    };
+
+    const promise: Promise<unknown> = task().then(
+      (config) => {
+        clear();
+        return config;
+      },
+      (error) => {
+        clear();
+        throw error;
+      }
+    );
+
+    this[key] = promise;
+    return promise;
+  }
+
+  /**
+   * Validates a configuration and writes it to the config file.
+   *
+   * - The configuration is validated first, and the validated configuration is written.
+   * - Values last set by the default configuration, environment variables or the environment-specific
+   *   sibling are not written: the file keeps its own value for them, if any. The cache keeps every value.
+   * - It's written to the loaded config file, or to the config file `load` would use if none is loaded.
+   * - `.json` files are written as pretty JSON, and `.js`, `.cjs` and `.mjs` files export the configuration.
+   * - For `package.json`, only the `property` key is replaced.
+   * - The file is replaced atomically using a temporary file, and backed up first if `backup` is enabled.
+   * - The cache is updated only after the file is written.
+   * - A configuration loaded from `sources` can't be saved, as there is no single config file.
+   *
+   * @template T The expected structure of the configuration object.
+   * @param config The configuration to save.
+   * @returns A Promise that resolves with the saved configuration.
+   * @throws `ConfigError` if the configuration is invalid, if the format can't be written, or if writing fails.
+   */
+  public static save<T extends Record<string, unknown>>(config: T): Promise<T> {
+    return new Promise((resolve, reject) => {
+      if (!isPlain(config)) {
+        return reject(new ConfigError(`Invalid config: ${String(config)}`));
+      }
+
+      let path: string;
+
+      try {
+        path = this.which();
+      } catch (error) {
+        return reject(error);
+      }
+
+      if (isUndefined(path)) {
+        const error = new ConfigError(
+          'Cannot save a config loaded from sources'
+        );
+        return reject(error);
+      }
+
+      // Values changed by the saved config are traced as overrides
+      const previous = this.own('config');
+      const changed = changes(previous, config);
+      const trail: Array<Trace> = (
+        isDefined(previous) && isDefined(this.own('provenance'))
+          ? this.own('provenance')
+          : []
+      ).filter((trace: Trace) => !changed.includes(trace.key));
+
+      changed.forEach((key) =>
+        trail.push({ key, source: { type: 'override' } })
+      );
+
+      Promise.resolve()
+        .then(() => this.check(clone(config), false, trail))
+        .then((config) =>
+          this.original(path)
+            .then((original) => {
+              // Values of the default, env variables or siblings stay out of the file
+              const keys = foreign(trail, config, path);
+              return this.serialize(path, restore(config, keys, original));
+            })
+            .then((content) => this.persist(path, content))
+            .then(() => {
+              this.config = this.seal(config);
+              this.loaded = path;
+              this.provenance = trail;
+              resolve(this.config as T);
+            })
+        )
+        .catch((error) =>
+          reject(
+            error instanceof ConfigError
+              ? error
+              : new ConfigError(error.message)
+          )
+        );
+    });
+  }
+
+  /**
+   * Reads the configuration currently written in a config file.
    *
-   * @protected
-   * @static
+   * @param path The path to the config file.
+   * @returns A Promise that resolves with the configuration, or `undefined` if the file is missing or can't be read.
    */
-  protected static default: Record<string, unknown>;
+  private static original(path: string): Promise<unknown> {
+    if (!fs.existsSync(path)) return Promise.resolve(undefined);
+    return this.read(path).catch(() => undefined);
+  }
 
   /**
-   * Resolves the project root directory synchronously.
-   *
-   * This method caches the resolved root directory to avoid repeated I/O operations
-   * on subsequent calls.
+   * Serializes a configuration to the format of a config file.
    *
-   * @returns The path to the project root directory.
-   * @throws `ConfigError` if no project root is found.
+   * @param path The path to the config file.
+   * @param config The configuration to serialize.
+   * @returns A Promise that resolves with the content of the config file.
+   * @throws `ConfigError` if the format of the config file can't be written, or if a value can't be written as JSON.
    */
-  public static resolveSync() {
-    if (this.root) return this.root;
+  private static serialize(
+    path: string,
+    config: Record<string, unknown>
+  ): Promise<string> {
+    const extension = extname(path).toLowerCase();
+    const unsupported = unwritable(config);
+
+    if (isDefined(unsupported)) {
+      const { key, kind } = unsupported;
+
+      return Promise.reject(
+        new ConfigError(
+          `Cannot save ${kind} at ${key}, only JSON values can be written`
+        )
+      );
+    }
+
+    // Copy the config so secrets are not redacted by `toJSON`
+    const json = (value: unknown) => JSON.stringify(clone(value), null, 2);
 
-    let root = process.cwd();
+    if (extension === '.json' && basename(path) === 'package.json') {
+      const key = this.key();
 
-    while (root !== parse(root).root) {
-      const nodeModules = join(root, 'node_modules');
-      if (fs.existsSync(nodeModules)) return (this.root = root);
-      root = dirname(root);
+      if (!isStr(key)) {
+        return Promise.reject(
+          new ConfigError(`Cannot save package.json without a property`)
+        );
+      }
+
+      return fs.promises
+        .readFile(path, 'utf-8')
+        .then((content) => JSON.parse(content))
+        .then((pkg) => `${json({ ...pkg, [key]: config })}\n`);
+    }
+
+    if (extension === '.json') return Promise.resolve(`${json(config)}\n`);
+
+    if (extension === '.mjs' || modules.get(path) === 'import') {
+      return Promise.resolve(`export default ${json(config)};\n`);
+    }
+
+    if (extension === '.js' || extension === '.cjs') {
+      return Promise.resolve(`module.exports = ${json(config)};\n`);
     }
 
-    throw new ConfigError('Could not find project root');
+    return Promise.reject(
+      new ConfigError(`Cannot save config files with extention: ${extension}`)
+    );
   }
 
   /**
-   * Resolves the project root directory asynchronously.
+   * Replaces the content of a file atomically.
    *
-   * This method caches the resolved root directory to avoid repeated I/O operations
-   * on subsequent calls.
+   * - The content is written to a temporary file in the same directory, then renamed over the file,
+   *   so readers never see a partially written file.
+   * - If `backup` is enabled, the previous file is copied to a timestamped `.bak` file first.
    *
-   * @returns A promise that resolves to the project root directory path.
-   * @throws `ConfigError` if no project root is found.
+   * @param path The path to the file.
+   * @param content The new content of the file.
+   * @returns A Promise that resolves when the file is replaced.
    */
-  public static resolve(): Promise<string> {
-    return new Promise((resolve, reject) => {
-      if (this.root) return resolve(this.root);
+  private static persist(path: string, content: string): Promise<void> {
+    const temp = `${path}.${process.pid}.${Date.now()}.tmp`;
 
-      const find = (path: string): Promise<string> => {
-        return new Promise((resolve, reject) => {
-          if (path === parse(path).root) {
-            return reject(new ConfigError('Could not find project root'));
-          }
+    const backup = (): Promise<void> => {
+      if (this.backup !== true) return Promise.resolve();
 
-          fs.promises
-            .access(join(path, 'node_modules'))
-            .then(() => resolve(path))
-            .catch(() => find(dirname(path)).then(resolve).catch(reject));
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+
+      return fs.promises
+        .copyFile(path, `${path}.${stamp}.bak`)
+        .catch((error) => {
+          // Nothing to back up
+          if (error.code !== 'ENOENT') throw error;
         });
-      };
+    };
 
-      return find(process.cwd())
-        .then((root) => resolve((this.root = root)))
-        .catch((error) => reject(error));
-    });
+    return this.mkdir(dirname(path))
+      .then(() => backup())
+      .then(() => fs.promises.writeFile(temp, content))
+      .then(() => fs.promises.rename(temp, path))
+      .catch((error) =>
+        fs.promises
+          .unlink(temp)
+          .catch(() => undefined)
+          .then(() => {
+            throw error;
+          })
+      );
   }
 
   /**
-   * Checks if a specified path exists.
+   * Writes a starter config file built from the default configuration.
    *
-   * This method tests whether a given file or directory path exists in the file system.
-   * If the path is valid and accessible, the promise resolves successfully.
+   * - The config file is written to the `file` in the project root.
+   * - JavaScript starter configs have a comment above each field, taken from `descriptions`
+   *   or naming the field and its type.
+   * - The directories referred to by `paths` (e.g. `paths.models`) are created in the project root.
+   * - An existing config file is only overwritten if `force` is set.
    *
-   * @param path The path to check for existence.
-   * @returns A promise that resolves to `void` if the path exists or rejects with a `ConfigError` if it doesn't.
-   * @throws `ConfigError` if the path is invalid or inaccessible.
+   * @param options The format of the starter config, and whether to overwrite an existing file.
+   * @returns A Promise that resolves with the path of the config file.
+   * @throws `ConfigError` if the options are invalid, if the file exists, or if writing fails.
    */
-  public static exist(path: string): Promise<void> {
+  public static init(options: InitOptions = {}): Promise<string> {
     return new Promise((resolve, reject) => {
-      if (!isStr(path)) {
-        return reject(new ConfigError(`Invalid path: ${String(path)}`));
+      if (!isObj(options)) {
+        return reject(new ConfigError(`Invalid options: ${String(options)}`));
       }
 
-      fs.promises
-        .access(path)
-        .then(resolve)
-        .catch((error) => reject(new ConfigError(error.message)));
+      let root: string;
+
+      try {
+        root = this.resolveSync();
+      } catch (error) {
+        return reject(error);
+      }
+
+      if (!isStr(this.file)) {
+        return reject(new ConfigError(`Invalid file: ${String(this.file)}`));
+      }
+
+      const path = join(root, this.file);
+      const extension = extname(path).toLowerCase();
+      const js = ['.js', '.cjs', '.mjs', '.ts'];
+      const json = ['.json', '.jsonc', '.json5', '.yaml', '.yml', ''];
+      const format = isDefined(options.format)
+        ? options.format
+        : js.includes(extension)
+        ? 'js'
+        : 'json';
+
+      if (
+        (format !== 'js' || !js.includes(extension)) &&
+        (format !== 'json' || !json.includes(extension))
+      ) {
+        const error = new ConfigError(
+          `Cannot write ${String(format)} starter config to: ${path}`
+        );
+
+        return reject(error);
+      }
+
+      const config = isPlain(this.default) ? clone(this.default) : {};
+      const exports = ['.js', '.cjs'].includes(extension)
+        ? 'module.exports ='
+        : 'export default';
+
+      const content =
+        format === 'json'
+          ? `${JSON.stringify(config, null, 2)}\n`
+          : `${exports} ${scaffold(
+              config,
+              this.describe.bind(this, config)
+            )};\n`;
+
+      const paths = isPlain(config.paths)
+        ? (Object.values(config.paths).filter(isStr) as Array<string>)
+        : [];
+
+      this.exist(path)
+        .then(
+          () => {
+            if (options.force === true) return;
+
+            throw new ConfigError(
+              `Config file already exists: ${path}, set force to overwrite it`
+            );
+          },
+          () => undefined
+        )
+        .then(() => this.persist(path, content))
+        .then(() =>
+          paths.reduce(
+            (promise, directory) =>
+              promise.then(() => this.mkdir(absolute(root, directory))),
+            Promise.resolve()
+          )
+        )
+        .then(() => resolve(path))
+        .catch((error) =>
+          reject(
+            error instanceof ConfigError
+              ? error
+              : new ConfigError(error.message)
+          )
+        );
     });
   }
 
   /**
-   * Checks if multiple paths exist.
-   *
-   * This method validates the existence of multiple file or directory paths.
-   * It resolves if all paths exist or rejects if any path is missing or invalid.
+   * Describes a field of the starter config, from `descriptions` or its key path and type.
    *
-   * @param paths An array of paths to check for existence.
-   * @returns A promise that resolves to `void` if all paths exist or rejects with a `ConfigError` if any path doesn't.
-   * @throws `ConfigError` if any path is invalid or inaccessible.
+   * @param config The starter config.
+   * @param path The key path of the field.
+   * @returns The description of the field.
    */
-  public static existMany(paths: Array<string>): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!isArrOfStr(paths)) {
-        return reject(new ConfigError(`Invalid paths: ${String(paths)}`));
-      }
+  private static describe(config: unknown, path: Array<string>): string {
+    const key = path.join('.');
 
-      return Promise.all(paths.map((path) => this.exist(path)))
-        .then(() => resolve())
-        .catch(reject);
-    });
+    if (isPlain(this.descriptions) && isStr(this.descriptions[key])) {
+      return this.descriptions[key];
+    }
+
+    const value = path.reduce((value, key) => value[key], config);
+    const type =
+      value === null ? 'null' : isArr(value) ? 'array' : typeof value;
+
+    return `${key} (${type})`;
   }
 
   /**
-   * Ensures that a directory exists, creating it if necessary.
-   *
-   * - If the directory already exists, the method resolves immediately.
-   * - If the directory does not exist, it creates the necessary directories recursively.
+   * Looks up a dot-separated key path in the cached configuration.
    *
-   * @param path The path to the directory to check or create.
-   * @returns A promise that resolves when the directory exists or is created successfully.
-   * @throws `ConfigError` if the path is invalid or directory creation fails.
+   * @param path The key path, e.g. `paths.models`.
+   * @returns Whether the path exists, and its value.
+   * @throws `ConfigError` if the path is invalid or nothing is loaded yet.
    */
-  public static mkdir(path: string): Promise<void | string> {
-    return new Promise((resolve, reject) => {
-      if (!isStr(path)) {
-        return reject(new ConfigError(`Invalid path: ${String(path)}`));
-      }
+  private static lookup(path: string): { found: boolean; value: unknown } {
+    if (!isStr(path) || path === '') {
+      throw new ConfigError(`Invalid key path: ${String(path)}`);
+    }
 
-      this.exist(path)
-        .then(resolve)
-        .catch(() => fs.promises.mkdir(path, { recursive: true }))
-        .then(resolve)
-        .catch((error) => reject(new ConfigError(error.message)));
-    });
+    const config = this.current(`access "${path}"`);
+
+    return path.split('.').reduce(
+      ({ found, value }, key) => {
+        if (
+          found &&
+          value !== null &&
+          typeof value === 'object' &&
+          Object.prototype.hasOwnProperty.call(value, key)
+        ) {
+          return { found, value: value[key] };
+        }
+
+        return { found: false, value: undefined };
+      },
+      { found: true, value: config as unknown }
+    );
   }
 
   /**
-   * Ensures that a configuration file exists, creating it along with its directories if necessary.
+   * Returns the value at a dot-separated key path of the loaded configuration.
    *
-   * - If the file already exists, the method resolves immediately.
-   * - If the file does not exist, it ensures all parent directories are created and writes the file.
+   * - Array items are accessed by index, e.g. `hosts.0`.
+   * - The fallback is returned if the value is missing, `undefined` or `null`.
+   * - Subclasses declaring a `shape` get key path autocompletion and typed values.
    *
-   * @param path The full path to the configuration file.
-   * @param content The content to write if the file is created. Defaults to an empty string.
-   * @returns A Promise that resolves when the file is confirmed to exist or is created successfully.
-   * @throws `ConfigError` if the path is invalid or if file creation fails.
+   * @param path The key path, e.g. `paths.models`.
+   * @param fallback The value returned if the key path has no value.
+   * @returns The value at the key path, or the fallback.
+   * @throws `ConfigError` if the path is invalid or nothing is loaded yet.
+   *
+   * @example
+   * interface MegaShape {
+   *   paths: { models: string; seeders?: string };
+   * }
+   *
+   * class MegaConfig extends Config {
+   *   declare static shape: MegaShape;
+   * }
+   *
+   * await MegaConfig.load();
+   * MegaConfig.get('paths.models'); // string
+   * MegaConfig.get('paths.seeders', 'seeders'); // string
    */
-  public static mkfile(path: string, content: string = ''): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!isStr(path)) {
-        return reject(new ConfigError(`Invalid path: ${String(path)}`));
-      }
+  public static get<C extends typeof Config, P extends KeyPath<C>>(
+    this: C,
+    path: P
+  ): PathValue<Shape<C>, P>;
 
-      if (!isStr(content)) {
-        return reject(new ConfigError(`Invalid content: ${String(content)}`));
-      }
+  public static get<C extends typeof Config, P extends KeyPath<C>, F>(
+    this: C,
+    path: P,
+    fallback: F
+  ): unknown extends PathValue<Shape<C>, P>
+    ? unknown
+    : NonNullable<PathValue<Shape<C>, P>> | F;
 
-      this.exist(path) // Ensure the file exist
-        .then(resolve)
-        .catch(() => this.mkdir(dirname(path))) // Ensure the directory exists
-        .then(() => fs.promises.writeFile(path, content)) // Write the file
-        .then(resolve)
-        .catch((error) => reject(new ConfigError(error.message)));
-    });
+  public static get(path: string, fallback?: unknown): unknown {
+    const value = this.lookup(path).value;
+    return isUndefined(value) || value === null ? fallback : value;
   }
 
   /**
-   * Registers a new validator function to be applied to the config.
+   * Checks whether a dot-separated key path of the loaded configuration has a value.
    *
-   * The validator function is expected to either modify the config or throw an error if validation fails.
+   * @param path The key path, e.g. `cluster`.
+   * @returns `true` if the key path exists and its value is not `undefined`.
+   * @throws `ConfigError` if the path is invalid or nothing is loaded yet.
+   */
+  public static has<C extends typeof Config>(
+    this: C,
+    path: KeyPath<C>
+  ): boolean;
+
+  public static has(path: string): boolean {
+    const { found, value } = this.lookup(path);
+    return found && isDefined(value);
+  }
+
+  /**
+   * Returns the value at a dot-separated key path of the loaded configuration, which must be set.
    *
-   * @param validator A function that takes the current config and either modifies it or throws an error.
-   * @returns The Config instance, allowing for method chaining.
-   * @throws `ConfigError` if the validator is not a function.
+   * @param path The key path, e.g. `paths.seeders`.
+   * @returns The value at the key path.
+   * @throws `ConfigError` naming the path if its value is missing, `undefined` or `null`,
+   * or if nothing is loaded yet.
    */
-  public static register(validator: Validator): Config {
-    if (!isFunc(validator)) {
-      throw new ConfigError(`Invalid validator: ${String(validator)}`);
+  public static require<C extends typeof Config, P extends KeyPath<C>>(
+    this: C,
+    path: P
+  ): unknown extends PathValue<Shape<C>, P>
+    ? unknown
+    : NonNullable<PathValue<Shape<C>, P>>;
+
+  public static require(path: string): unknown {
+    const value = this.lookup(path).value;
+
+    if (isUndefined(value) || value === null) {
+      throw new ConfigError(`Missing required config value: ${path}`);
     }
 
-    if (!isArr(this.validators)) this.validators = [];
-    this.validators.push(validator);
-    return this;
+    return value;
   }
 
   /**
-   * Validates the config by applying all registered validators in order.
+   * Explains where the value at a dot-separated key path of the loaded configuration comes from.
    *
-   * Each validator will modify the config or throw an error. The final modified config is returned.
+   * - The sources are listed in the order they were applied, the last one wins.
+   * - Sources are the default configuration, config files with the line of the key if found,
+   *   environment variables, validators that changed the value, and values saved with `save`.
+   * - For objects, the sources of their nested values are included.
    *
-   * @param config The configuration object to be validated and potentially modified.
-   * @returns The final modified config after all validators have been applied.
-   * @throws `ConfigError` if the validators are not properly registered or if any validator throws an error.
+   * @param path The key path, e.g. `paths.models`.
+   * @returns The value at the key path and the sources that set it.
+   * @throws `ConfigError` if the path is invalid or nothing is loaded yet.
+   *
+   * @example
+   * await MegaConfig.load();
+   * MegaConfig.explain('paths.models');
+   * // {
+   * //   value: 'src/models',
+   * //   sources: [
+   * //     { type: 'default' },
+   * //     { type: 'file', path: '/project/mega.config.json', line: 3 },
+   * //     { type: 'env', name: 'MEGA_PATHS__MODELS' },
+   * //   ],
+   * // }
    */
-  public static validate(
-    config: Record<string, unknown>
-  ): Record<string, unknown> {
-    if (isUndefined(this.validators)) return config;
+  public static explain<C extends typeof Config, P extends KeyPath<C>>(
+    this: C,
+    path: P
+  ): { value: PathValue<Shape<C>, P>; sources: Array<Source> };
 
-    if (!isArrOfFunc(this.validators)) {
-      throw new ConfigError(`Invalid validators: ${String(this.validators)}`);
-    }
+  public static explain(path: string): {
+    value: unknown;
+    sources: Array<Source>;
+  } {
+    const { value } = this.lookup(path);
+    const trail: Array<Trace> = this.own('provenance') || [];
+    const contents = new Map<string, string | undefined>();
 
-    return this.validators.reduce(
-      (config, validator) => validator(config),
-      config
-    );
+    // Reads each config file once, to find the lines of the keys
+    const read = (file: string) => {
+      if (!contents.has(file)) {
+        try {
+          contents.set(file, fs.readFileSync(file, 'utf-8'));
+        } catch {
+          contents.set(file, undefined);
+        }
+      }
+
+      return contents.get(file);
+    };
+
+    return {
+      value,
+      sources: sources(trail, path).map(({ key, source }) => {
+        if (source.type !== 'file') return { ...source };
+
+        const content = read(source.path);
+        const nested = key.length > path.length ? path : key;
+
+        // The config of package.json files is nested in the property
+        const property = this.key();
+        const search =
+          basename(source.path) === 'package.json' && isStr(property)
+            ? `${property}.${nested}`
+            : nested;
+
+        const found = isStr(content) ? line(content, search) : undefined;
+
+        return isDefined(found) ? { ...source, line: found } : { ...source };
+      }),
+    };
   }
 
   /**
-   * Loads a JSON config file.
+   * Returns an independent deep copy of the loaded configuration.
    *
-   * - This method reads and parses the JSON config file.
-   * - If the config file does not exist this method resolves with the default configuration if provided.
+   * - The copy can be modified freely, even if the configuration is frozen.
+   * - Class instances and functions are kept by reference.
    *
-   * @param path The path to the JSON config file.
-   * @returns A Promise that resolves with the parsed JSON configuration.
-   * @throws `ConfigError` if there is an issue reading or parsing the JSON file.
+   * @template T The expected structure of the configuration object.
+   * @returns A deep copy of the cached configuration.
+   * @throws `ConfigError` if nothing is loaded yet.
    */
-  public static loadJSON(path: string): Promise<unknown> {
-    return new Promise((resolve, reject) => {
-      if (!isStr(path)) {
-        return reject(new ConfigError(`Invalid path: ${String(path)}`));
-      }
+  public static snapshot<T extends Record<string, unknown>>(): T {
+    return clone(this.current('take a snapshot')) as T;
+  }
 
-      if (extname(path).toLowerCase() !== '.json') {
-        return reject(new ConfigError(`Invalid JSON path: ${String(path)}`));
-      }
+  /**
+   * Prints the loaded configuration with its secret values replaced by `[REDACTED]`.
+   *
+   * @returns The printed text.
+   * @throws `ConfigError` if nothing is loaded yet.
+   */
+  public static dump(): string {
+    const config = this.current('dump the config');
+    const secrets = isArrOfStr(this.secrets) ? this.secrets : [];
+    const text = inspect(redact(config, secrets), { depth: null });
 
-      this.exist(path)
-        .then(() => {
-          fs.promises
-            .readFile(path, 'utf-8')
-            .then((content) => {
-              this.config = this.validate(JSON.parse(content));
-              this.loaded = path;
-              return resolve(this.config);
-            })
-            .catch((error) => reject(new ConfigError(error.message)));
-        })
-        .catch((error) => {
-          // resolve with default config
-          if (this.default) return resolve(this.default);
+    console.log(text);
+    return text;
+  }
 
-          // or reject
-          reject(new ConfigError(error.message));
-        });
-    });
+  /**
+   * Returns the cached configuration.
+   *
+   * @param action The action requiring the configuration, used in the error message.
+   * @returns The cached configuration.
+   * @throws `ConfigError` if nothing is loaded yet.
+   */
+  private static current(action: string): Record<string, unknown> {
+    const config = this.own('config');
+
+    if (isUndefined(config)) {
+      throw new ConfigError(
+        `Cannot ${action} before the config is loaded, call load() first`
+      );
+    }
+
+    return config;
   }
 
   /**
-   * Loads a JavaScript config file.
+   * Watches the loaded config file and reloads it when it changes.
    *
-   * - This method loads the JavaScript config file using `require()`.
-   * - If the config file does not exist this method resolves with the default configuration if provided.
+   * - The loaded config file and its environment-specific sibling are watched,
+   *   or the `sources` that can be watched if they are defined.
+   * - The local files included by JavaScript and TypeScript config files, e.g. with `require('./db')`, are watched too.
+   * - Changes are debounced using the `debounce` delay, then the configuration is reloaded.
+   * - A `change` event is emitted with the new and the previous configuration after each reload.
+   * - An `error` event is emitted if the reload fails, and the last good configuration stays active.
+   * - Calling this method while watching returns the same emitter.
    *
-   * @param path The path to the JavaScript config file.
-   * @returns A Promise that resolves with the loaded configuration.
-   * @throws `ConfigError` if there is an issue requiring or evaluating the JavaScript file.
+   * @returns The emitter of the `change` and `error` events.
+   * @throws `ConfigError` if no file is loaded, or if a directory cannot be watched.
+   *
+   * @example
+   * await MegaConfig.load();
+   *
+   * MegaConfig.watch()
+   *   .on('change', (config, previous) => console.log('Config updated'))
+   *   .on('error', (error) => console.error(error.message));
+   *
+   * // Release the watchers
+   * MegaConfig.unwatch();
    */
-  public static loadJS(path: string): Promise<unknown> {
-    return new Promise<any>((resolve, reject) => {
-      if (!isStr(path)) {
-        return reject(new ConfigError(`Invalid path: ${String(path)}`));
-      }
+  public static watch(): EventEmitter {
+    if (isDefined(this.sources)) return this.observe();
 
-      if (extname(path).toLowerCase() !== '.js') {
-        return reject(new ConfigError(`Invalid JS path: ${String(path)}`));
-      }
+    const loaded = this.own('loaded');
 
-      this.exist(path)
-        .then(() => {
-          try {
-            const config = require(path);
-            this.config = this.validate(config);
-            this.loaded = path;
-            resolve(this.config);
-          } catch (error) {
-            reject(new ConfigError(error.message));
+    if (!isStr(loaded)) throw new ConfigError('Nothing to watch');
+    if (isDefined(this.own('emitter'))) return this.emitter;
+
+    const files = [loaded, this.sibling(loaded)]
+      .filter(isStr)
+      .reduce<Array<string>>(
+        (files, file: string) => files.concat(file, includes.get(file) || []),
+        []
+      );
+
+    const directories = Array.from(new Set(files.map((file) => dirname(file))));
+
+    const watchers = open(directories, (directory) =>
+      fs
+        .watch(directory, (event, name) => {
+          // Some platforms do not provide the file name
+          if (!name || files.includes(join(directory, name.toString()))) {
+            this.schedule();
           }
         })
-        .catch((error) => {
-          // resolve with default config
-          if (this.default) return resolve(this.default);
+        .on('error', (error) => this.emit('error', error))
+    );
 
-          // or reject
-          reject(new ConfigError(error.message));
-        });
-    });
+    this.watchers = watchers;
+    this.emitter = new EventEmitter();
+    return this.emitter;
   }
 
   /**
-   * Loads the config file or resolves with a default configuration if the config file is missing.
-   *
-   * - If the configuration is already loaded, it resolves immediately with the cached configuration.
-   * - If the config file does not exist this method resolves with the default configuration if provided.
+   * Watches the `sources` that support it and reloads the configuration when one changes.
    *
-   * @template T The expected structure of the configuration object.
-   * @returns A Promise that resolves with the loaded configuration or the default configuration.
-   * @throws `ConfigError` if the file format is unsupported or if loading the configuration fails.
+   * @returns The emitter of the `change` and `error` events.
+   * @throws `ConfigError` if nothing is loaded, or if a source cannot be watched.
    */
-  public static load<T extends Record<string, unknown>>(): Promise<T> {
-    // Return the cached config if already loaded
-    if (isDefined(this.config)) {
-      return Promise.resolve(this.config as T);
+  private static observe(): EventEmitter {
+    if (isUndefined(this.own('config'))) {
+      throw new ConfigError('Nothing to watch');
     }
 
-    const extension = extname(this.file).toLocaleLowerCase();
+    if (isDefined(this.own('emitter'))) return this.emitter;
 
-    // Load default JS config
-    if (extension === '.js') {
-      return this.loadJS(join(this.resolveSync(), this.file)) as Promise<T>;
-    }
+    const watchers = open(
+      this.sources.filter((source) => isFunc(source.watch)),
+      (source) => ({ close: source.watch(() => this.schedule()) })
+    );
 
-    // Load default JSON config
-    if (extension === '.json') {
-      return this.loadJSON(join(this.resolveSync(), this.file)) as Promise<T>;
-    }
+    this.watchers = watchers;
+    this.emitter = new EventEmitter();
+    return this.emitter;
+  }
 
-    return Promise.reject(
-      new ConfigError(`Unsupported config file extention: ${extension}`)
-    );
+  /**
+   * Stops watching the config file and releases all watchers.
+   *
+   * - Pending reloads are canceled and all event listeners are removed.
+   * - Calling this method while not watching does nothing.
+   */
+  public static unwatch(): void {
+    const watchers: Array<{ close(): void }> = this.own('watchers');
+    const emitter: EventEmitter = this.own('emitter');
+
+    if (isDefined(watchers)) watchers.forEach((watcher) => watcher.close());
+    if (isDefined(emitter)) emitter.removeAllListeners();
+
+    clearTimeout(this.own('timer'));
+
+    this.watchers = undefined;
+    this.emitter = undefined;
+    this.timer = undefined;
   }
 
   /**
-   * Reloads the config file and returns its contents.
-   * This method attempts to reload a previously loaded config file.
+   * Clears the state of this class: the cached config and its provenance, the validators, the loaded path and the resolved root.
    *
-   * @template T The expected structure of the loaded configuration.
-   * @returns A promise that resolves to the reloaded configuration object.
-   * @throws `ConfigError` if no file is loaded or the file extension is unsupported.
+   * - The watchers are released and in-flight loads are forgotten, so the next `load` starts over.
+   * - Parent, child and sibling classes are not affected.
+   * - Hooks and options such as `file`, `default` or a `root` set explicitly are kept.
+   *
+   * @example
+   * MegaConfig.reset();
+   * await MegaConfig.load(); // Loads the config file again
    */
-  public static reload<T extends Record<string, unknown>>(): Promise<T> {
-    if (!isStr(this.loaded)) {
-      return Promise.reject(new ConfigError('Nothing to reload'));
+  public static reset(): void {
+    this.unwatch();
+
+    const resolved = this.own('resolved');
+
+    if (
+      isDefined(resolved) &&
+      Object.prototype.hasOwnProperty.call(this, 'root') &&
+      this.root === resolved.root
+    ) {
+      delete this.root;
     }
 
-    const extension = extname(this.loaded).toLocaleLowerCase();
+    delete this.config;
+    delete this.loaded;
+    delete this.validators;
+    delete this.loading;
+    delete this.reloading;
+    delete this.resolved;
+    delete this.provenance;
+  }
 
-    // Load default JS config
-    if (extension === '.js') return this.loadJS(this.loaded) as Promise<T>;
+  /**
+   * Schedules a debounced reload of the watched config file.
+   *
+   * - A `change` event is emitted with the new and the previous configuration if the reload succeeds.
+   * - An `error` event is emitted if the reload fails, and the previous configuration stays cached.
+   */
+  private static schedule(): void {
+    clearTimeout(this.own('timer'));
 
-    // Load default JSON config
-    if (extension === '.json') return this.loadJSON(this.loaded) as Promise<T>;
+    this.timer = setTimeout(
+      () => {
+        const previous = this.own('config');
 
-    return Promise.reject(
-      new ConfigError(`Unsupported config file extention: ${extension}`)
+        this.reload()
+          .then((config) => this.emit('change', config, previous))
+          .catch((error) => this.emit('error', error));
+      },
+      isDefined(this.debounce) ? this.debounce : 100
     );
   }
+
+  /**
+   * Emits a watch mode event if still watching.
+   *
+   * `error` events are only emitted if there is a listener, so a failed reload never crashes the process.
+   *
+   * @param event The event name.
+   * @param args The event arguments.
+   */
+  private static emit(event: string, ...args: Array<unknown>): void {
+    const emitter: EventEmitter = this.own('emitter');
+
+    if (isUndefined(emitter)) return;
+    if (event === 'error' && emitter.listenerCount('error') === 0) return;
+
+    emitter.emit(event, ...args);
+  }
 }
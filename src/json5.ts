@@ -0,0 +1,424 @@
+import { ParseError } from './utils';
+
+/**
+ * The escape sequences supported in JSON strings.
+ */
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * The additional escape sequences supported in JSON5 strings.
+ */
+const JSON5_ESCAPES: Record<string, string> = {
+  "'": "'",
+  v: '\v',
+  '0': '\0',
+};
+
+/**
+ * Matches the numbers allowed in JSON.
+ */
+const NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+/**
+ * Matches the numbers allowed in JSON5.
+ */
+const JSON5_NUMBER =
+  /[+-]?(?:Infinity|NaN|0[xX][0-9A-Fa-f]+|(?:(?:0|[1-9]\d*)(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?)/y;
+
+/**
+ * Matches the unquoted keys allowed in JSON5.
+ */
+const IDENTIFIER = /[\p{ID_Start}$_][\p{ID_Continue}$\u200c\u200d]*/uy;
+
+/**
+ * A JSON and JSON5 parser reporting the line and column of syntax errors.
+ *
+ * - In strict mode, only standard JSON is accepted.
+ * - Otherwise, comments, trailing commas, unquoted keys, single quotes and the JSON5 numbers are accepted.
+ */
+class Parser {
+  /**
+   * The JSON source.
+   */
+  private source: string;
+
+  /**
+   * Whether only standard JSON is accepted.
+   */
+  private strict: boolean;
+
+  /**
+   * The index of the current character.
+   */
+  private index = 0;
+
+  /**
+   * Creates a parser for the given JSON source.
+   *
+   * @param source The JSON source.
+   * @param strict Whether only standard JSON is accepted.
+   */
+  constructor(source: string, strict: boolean) {
+    this.source = source;
+    this.strict = strict;
+  }
+
+  /**
+   * Creates a parse error located at the given index.
+   *
+   * @param message The error description.
+   * @param index The index of the error in the source.
+   * @returns The parse error.
+   */
+  private error(message: string, index = this.index): ParseError {
+    const lines = this.source.slice(0, index).split('\n');
+    return new ParseError(
+      message,
+      lines.length,
+      lines[lines.length - 1].length + 1
+    );
+  }
+
+  /**
+   * Creates a parse error for the current character.
+   *
+   * @returns The parse error.
+   */
+  private unexpected(): ParseError {
+    if (this.index >= this.source.length) {
+      return this.error('Unexpected end of input');
+    }
+
+    return this.error(`Unexpected character ${JSON.stringify(this.peek())}`);
+  }
+
+  /**
+   * Returns the current character.
+   *
+   * @returns The current character, or an empty string at the end of the source.
+   */
+  private peek(): string {
+    return this.source.charAt(this.index);
+  }
+
+  /**
+   * Skips whitespace, and comments in JSON5.
+   */
+  private space(): void {
+    for (;;) {
+      const char = this.peek();
+
+      if (char === ' ' || char === '\t' || char === '\n' || char === '\r') {
+        this.index++;
+      } else if (this.strict) {
+        return;
+      } else if (/\s/.test(char)) {
+        this.index++;
+      } else if (this.source.startsWith('//', this.index)) {
+        const end = this.source.slice(this.index).search(/[\n\r\u2028\u2029]/);
+        this.index = end === -1 ? this.source.length : this.index + end;
+      } else if (this.source.startsWith('/*', this.index)) {
+        const end = this.source.indexOf('*/', this.index + 2);
+        if (end === -1) throw this.error('Unterminated comment');
+        this.index = end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Parses the whole document.
+   *
+   * @returns The parsed value.
+   */
+  public parse(): unknown {
+    // Skip the byte order mark
+    if (this.peek() === '\ufeff') this.index++;
+
+    this.space();
+    const value = this.value();
+    this.space();
+
+    if (this.index < this.source.length) throw this.unexpected();
+    return value;
+  }
+
+  /**
+   * Parses a value.
+   *
+   * @returns The parsed value.
+   */
+  private value(): unknown {
+    const char = this.peek();
+
+    if (char === '{') return this.object();
+    if (char === '[') return this.array();
+    if (char === '"' || (char === "'" && !this.strict)) return this.string();
+
+    for (const [word, value] of [
+      ['null', null],
+      ['true', true],
+      ['false', false],
+    ] as Array<[string, unknown]>) {
+      if (this.source.startsWith(word, this.index)) {
+        this.index += word.length;
+        return value;
+      }
+    }
+
+    return this.number();
+  }
+
+  /**
+   * Parses a number.
+   *
+   * @returns The parsed number.
+   */
+  private number(): number {
+    const pattern = this.strict ? NUMBER : JSON5_NUMBER;
+    pattern.lastIndex = this.index;
+
+    if (!pattern.test(this.source)) throw this.unexpected();
+
+    const text = this.source.slice(this.index, pattern.lastIndex);
+    this.index = pattern.lastIndex;
+
+    const sign = text[0] === '-' ? -1 : 1;
+    const digits = text.replace(/^[+-]/, '');
+
+    if (digits === 'Infinity') return sign * Infinity;
+    if (digits === 'NaN') return NaN;
+    if (/^0x/i.test(digits)) return sign * parseInt(digits.slice(2), 16);
+    return sign * Number(digits);
+  }
+
+  /**
+   * Parses a string.
+   *
+   * @returns The parsed string.
+   */
+  private string(): string {
+    const start = this.index;
+    const quote = this.peek();
+    let value = '';
+
+    this.index++;
+
+    while (this.index < this.source.length) {
+      const char = this.peek();
+
+      if (char === quote) {
+        this.index++;
+        return value;
+      }
+
+      if (char === '\\') {
+        value += this.escape();
+        continue;
+      }
+
+      if (char === '\n' || char === '\r') break;
+
+      if (this.strict && char < ' ') {
+        throw this.error('Control characters must be escaped');
+      }
+
+      value += char;
+      this.index++;
+    }
+
+    throw this.error('Unterminated string', start);
+  }
+
+  /**
+   * Parses an escape sequence.
+   *
+   * @returns The escaped characters.
+   */
+  private escape(): string {
+    const start = this.index;
+    const char = this.source[++this.index];
+
+    if (ESCAPES[char]) {
+      this.index++;
+      return ESCAPES[char];
+    }
+
+    if (char === 'u') {
+      const hex = this.source.slice(this.index + 1, this.index + 5);
+      if (!/^[0-9A-Fa-f]{4}$/.test(hex)) {
+        throw this.error('Invalid unicode escape', start);
+      }
+
+      this.index += 5;
+      return String.fromCharCode(parseInt(hex, 16));
+    }
+
+    if (this.strict || char === undefined) {
+      throw this.error('Invalid escape sequence', start);
+    }
+
+    if (char === 'x') {
+      const hex = this.source.slice(this.index + 1, this.index + 3);
+      if (!/^[0-9A-Fa-f]{2}$/.test(hex)) {
+        throw this.error('Invalid hexadecimal escape', start);
+      }
+
+      this.index += 3;
+      return String.fromCharCode(parseInt(hex, 16));
+    }
+
+    // Escaped line terminators continue the string on the next line
+    if (this.source.startsWith('\r\n', this.index)) {
+      this.index += 2;
+      return '';
+    }
+
+    if (/[\n\r\u2028\u2029]/.test(char)) {
+      this.index++;
+      return '';
+    }
+
+    if (
+      JSON5_ESCAPES[char] &&
+      !(char === '0' && /\d/.test(this.source[this.index + 1]))
+    ) {
+      this.index++;
+      return JSON5_ESCAPES[char];
+    }
+
+    if (/\d/.test(char)) throw this.error('Invalid escape sequence', start);
+
+    this.index++;
+    return char;
+  }
+
+  /**
+   * Parses an object key.
+   *
+   * @returns The parsed key.
+   */
+  private key(): string {
+    const char = this.peek();
+
+    if (char === '"' || (char === "'" && !this.strict)) return this.string();
+
+    if (!this.strict) {
+      IDENTIFIER.lastIndex = this.index;
+
+      if (IDENTIFIER.test(this.source)) {
+        const key = this.source.slice(this.index, IDENTIFIER.lastIndex);
+        this.index = IDENTIFIER.lastIndex;
+        return key;
+      }
+    }
+
+    throw this.error(
+      this.index >= this.source.length
+        ? 'Unexpected end of input'
+        : `Expected a key, got ${JSON.stringify(char)}`
+    );
+  }
+
+  /**
+   * Parses an object.
+   *
+   * @returns The parsed object.
+   */
+  private object(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    this.index++;
+    this.space();
+
+    while (this.peek() !== '}') {
+      const key = this.key();
+      this.space();
+
+      if (this.peek() !== ':') throw this.error('Expected ":"');
+      this.index++;
+      this.space();
+
+      // Define `__proto__` as an own property, like JSON.parse
+      Object.defineProperty(result, key, {
+        value: this.value(),
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+
+      this.space();
+
+      if (this.index >= this.source.length) throw this.unexpected();
+      if (this.peek() === '}') break;
+      if (this.peek() !== ',') throw this.error('Expected "," or "}"');
+
+      const comma = this.index++;
+      this.space();
+
+      if (this.peek() === '}' && this.strict) {
+        throw this.error('Trailing commas are not allowed', comma);
+      }
+    }
+
+    this.index++;
+    return result;
+  }
+
+  /**
+   * Parses an array.
+   *
+   * @returns The parsed array.
+   */
+  private array(): Array<unknown> {
+    const result: Array<unknown> = [];
+
+    this.index++;
+    this.space();
+
+    while (this.peek() !== ']') {
+      result.push(this.value());
+      this.space();
+
+      if (this.index >= this.source.length) throw this.unexpected();
+      if (this.peek() === ']') break;
+      if (this.peek() !== ',') throw this.error('Expected "," or "]"');
+
+      const comma = this.index++;
+      this.space();
+
+      if (this.peek() === ']' && this.strict) {
+        throw this.error('Trailing commas are not allowed', comma);
+      }
+    }
+
+    this.index++;
+    return result;
+  }
+}
+
+/**
+ * Parses a JSON or JSON5 document.
+ *
+ * - In strict mode, only standard JSON is accepted.
+ * - Otherwise, the JSON5 syntax is accepted, which is also a superset of JSONC:
+ *   comments, trailing commas, unquoted keys, single quotes, hexadecimal numbers, `Infinity` and `NaN`.
+ *
+ * @param source The JSON source.
+ * @param strict Whether only standard JSON is accepted.
+ * @returns The parsed value.
+ * @throws `ParseError` with the line and column of the error if the document is invalid.
+ */
+export function parse(source: string, strict: boolean = false): unknown {
+  return new Parser(source, strict).parse();
+}
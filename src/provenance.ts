@@ -0,0 +1,205 @@
+import { isArr } from '@megaorm/test';
+import { isPlain } from './utils';
+
+/**
+ * A source that set a configuration value.
+ *
+ * - `default`: The default configuration.
+ * - `file`: A config file, with the line of the key if it can be found.
+ * - `env`: An environment variable.
+ * - `validator`: A validator that changed the value.
+ * - `hook`: An `afterValidate` hook that changed the value.
+ * - `override`: A value set by code, e.g. with `save`.
+ * - `source`: A config source, see `ConfigSource`.
+ */
+export interface Source {
+  /**
+   * The kind of source.
+   */
+  type:
+    | 'default'
+    | 'file'
+    | 'env'
+    | 'validator'
+    | 'hook'
+    | 'override'
+    | 'source';
+
+  /**
+   * The path of the config file, for `file` sources.
+   */
+  path?: string;
+
+  /**
+   * The line of the key in the config file, starting at 1, if known.
+   */
+  line?: number;
+
+  /**
+   * The name of the environment variable, of the validator, of the hook or of the config source.
+   */
+  name?: string;
+}
+
+/**
+ * A key path set by a source, recorded in the order the sources were applied.
+ */
+export interface Trace {
+  /**
+   * The dot-separated key path, e.g. `paths.models`.
+   */
+  key: string;
+
+  /**
+   * The source that set the key.
+   */
+  source: Source;
+}
+
+/**
+ * Lists the key paths of the leaves of a configuration.
+ * Arrays and empty objects are treated as leaves, like any value that is not a plain object.
+ *
+ * @param value The configuration.
+ * @param path The key path of the value, empty for the root configuration.
+ * @returns The dot-separated key paths of the leaves.
+ */
+export function leaves(
+  value: unknown,
+  path: Array<string> = []
+): Array<string> {
+  if (!isPlain(value) || (path.length > 0 && Object.keys(value).length === 0)) {
+    return path.length > 0 ? [path.join('.')] : [];
+  }
+
+  return Object.keys(value).reduce(
+    (keys, key) => keys.concat(leaves(value[key], [...path, key])),
+    [] as Array<string>
+  );
+}
+
+/**
+ * Checks whether two values are deeply equal, comparing plain objects and arrays by content.
+ *
+ * @param a The first value.
+ * @param b The second value.
+ * @returns `true` if the values are equal.
+ */
+function equal(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+
+  if ((isArr(a) && isArr(b)) || (isPlain(a) && isPlain(b))) {
+    const keys = Object.keys(a);
+
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every(
+        (key) =>
+          Object.prototype.hasOwnProperty.call(b, key) && equal(a[key], b[key])
+      )
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Lists the key paths of the leaves that differ between two configurations.
+ *
+ * @param before The previous configuration.
+ * @param after The new configuration.
+ * @returns The key paths added, removed or changed.
+ */
+export function changes(before: unknown, after: unknown): Array<string> {
+  const keys = Array.from(new Set([...leaves(before), ...leaves(after)]));
+
+  const get = (value: unknown, key: string) =>
+    key
+      .split('.')
+      .reduce((value, key) => (isPlain(value) ? value[key] : undefined), value);
+
+  return keys.filter((key) => !equal(get(before, key), get(after, key)));
+}
+
+/**
+ * Lists the sources that set a key path, in the order they were applied.
+ *
+ * - Sources of the key path itself, of its parents and of its children are included.
+ * - Each source is listed once, at its first position.
+ *
+ * @param traces The recorded traces.
+ * @param key The dot-separated key path.
+ * @returns The sources of the key path.
+ */
+export function sources(traces: Array<Trace>, key: string): Array<Trace> {
+  const related = (other: string) =>
+    other === key || other.startsWith(`${key}.`) || key.startsWith(`${other}.`);
+
+  return traces
+    .filter((trace) => related(trace.key))
+    .filter(
+      (trace, index, traces) =>
+        traces.findIndex((other) => equal(other.source, trace.source)) === index
+    );
+}
+
+/**
+ * Lists the leaves of a configuration whose value was last set by another source than a config file:
+ * the default configuration, an environment variable or another file, e.g. an environment-specific sibling.
+ *
+ * @param traces The recorded traces.
+ * @param config The configuration.
+ * @param path The path of the config file.
+ * @returns The key paths of the leaves set by other sources.
+ */
+export function foreign(
+  traces: Array<Trace>,
+  config: unknown,
+  path: string
+): Array<string> {
+  return leaves(config).filter((key) => {
+    const related = traces.filter(
+      (trace) => trace.key === key || key.startsWith(`${trace.key}.`)
+    );
+
+    if (related.length === 0) return false;
+
+    const { source } = related[related.length - 1];
+
+    return (
+      source.type === 'default' ||
+      source.type === 'env' ||
+      (source.type === 'file' && source.path !== path)
+    );
+  });
+}
+
+/**
+ * Finds the line of a key path in the content of a config file.
+ *
+ * Keys are searched in order, each one after its parent, as `key:`, `"key":`, `key =` or `[key]`.
+ * This matches JSON, YAML, TOML and JavaScript config files written in the usual style.
+ *
+ * @param content The content of the config file.
+ * @param key The dot-separated key path.
+ * @returns The line of the key, starting at 1, or `undefined` if it can't be found.
+ */
+export function line(content: string, key: string): number | undefined {
+  let index = 0;
+
+  for (const segment of key.split('.')) {
+    const name = segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(
+      `(^|[\\s{,[.])(["']?)${name}\\2\\s*[:=\\].]`,
+      'g'
+    );
+
+    pattern.lastIndex = index;
+    const match = pattern.exec(content);
+
+    if (match === null) return undefined;
+    index = match.index + match[1].length;
+  }
+
+  return content.slice(0, index).split('\n').length;
+}
@@ -0,0 +1,247 @@
+import { isArr, isDefined, isFunc, isUndefined } from '@megaorm/test';
+import { clone } from './utils';
+
+/**
+ * The value types supported by schema rules.
+ */
+export type SchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'function'
+  | 'any';
+
+/**
+ * A declarative rule describing a single configuration value.
+ *
+ * @example
+ * const rule: Rule = {
+ *   type: 'object',
+ *   required: true,
+ *   properties: {
+ *     models: { type: 'string', default: 'models' },
+ *     port: { type: 'integer', min: 1, max: 65535 },
+ *     mode: { type: 'string', enum: ['dev', 'prod'] },
+ *     hosts: { type: 'array', items: { type: 'string' } },
+ *   },
+ * };
+ */
+export interface Rule {
+  /**
+   * The expected type of the value, or a list of accepted types.
+   */
+  type?: SchemaType | Array<SchemaType>;
+
+  /**
+   * Whether the value must be defined.
+   */
+  required?: boolean;
+
+  /**
+   * The value to assign if the value is undefined.
+   */
+  default?: unknown;
+
+  /**
+   * The list of accepted values.
+   */
+  enum?: Array<unknown>;
+
+  /**
+   * The minimum value for numbers, or the minimum length for strings and arrays.
+   */
+  min?: number;
+
+  /**
+   * The maximum value for numbers, or the maximum length for strings and arrays.
+   */
+  max?: number;
+
+  /**
+   * The class the value must be an instance of.
+   */
+  instance?: Function;
+
+  /**
+   * The rules of the object properties.
+   */
+  properties?: Schema;
+
+  /**
+   * The rule applied to every array item.
+   */
+  items?: Rule;
+
+  /**
+   * A custom check returning `false` or an error message if the value is invalid.
+   */
+  check?: (value: any, config: any) => boolean | string | void;
+}
+
+/**
+ * A declarative schema mapping configuration keys to their rules.
+ */
+export type Schema = Record<string, Rule>;
+
+/**
+ * Describes the type of a value for error messages.
+ *
+ * @param value The value to describe.
+ * @returns The type name of the value.
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (isArr(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Checks if a value matches a schema type.
+ *
+ * @param value The value to check.
+ * @param type The expected schema type.
+ * @returns `true` if the value matches the type, otherwise `false`.
+ */
+function matches(value: unknown, type: SchemaType): boolean {
+  if (type === 'any') return true;
+  if (type === 'integer') return Number.isInteger(value);
+  if (type === 'number') return typeof value === 'number' && !isNaN(value);
+  return typeOf(value) === type;
+}
+
+/**
+ * Formats a value for error messages.
+ *
+ * @param value The value to format.
+ * @returns The formatted value.
+ */
+function format(value: unknown): string {
+  if (isFunc(value)) return '[function]';
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Checks a value against a rule and collects all violations.
+ *
+ * - Nested objects and arrays are checked recursively.
+ * - Each violation is prefixed with the key path of the value, e.g. `paths.models: expected string, got number`.
+ *
+ * @param value The value to check.
+ * @param rule The rule to check the value against.
+ * @param path The key path of the value.
+ * @param config The whole configuration object, passed to custom checks.
+ * @returns The list of violations, empty if the value is valid.
+ */
+export function check(
+  value: unknown,
+  rule: Rule,
+  path: string,
+  config: unknown
+): Array<string> {
+  if (isUndefined(value)) {
+    return rule.required ? [`${path}: is required`] : [];
+  }
+
+  if (isDefined(rule.type)) {
+    const types = (
+      isArr(rule.type) ? rule.type : [rule.type]
+    ) as Array<SchemaType>;
+
+    if (!types.some((type) => matches(value, type))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+
+  const violations: Array<string> = [];
+
+  if (isArr(rule.enum) && !rule.enum.includes(value)) {
+    const values = rule.enum.map(format).join(', ');
+    violations.push(`${path}: expected one of ${values}, got ${format(value)}`);
+  }
+
+  if (isDefined(rule.instance) && !(value instanceof rule.instance)) {
+    violations.push(
+      `${path}: expected instance of ${rule.instance.name}, got ${typeOf(
+        value
+      )}`
+    );
+  }
+
+  const size =
+    typeof value === 'number'
+      ? value
+      : typeof value === 'string' || isArr(value)
+      ? (value as string | Array<unknown>).length
+      : undefined;
+
+  const unit = typeof value === 'number' ? '' : 'length ';
+
+  if (isDefined(size) && isDefined(rule.min) && size < rule.min) {
+    violations.push(
+      `${path}: expected ${unit}at least ${rule.min}, got ${size}`
+    );
+  }
+
+  if (isDefined(size) && isDefined(rule.max) && size > rule.max) {
+    violations.push(
+      `${path}: expected ${unit}at most ${rule.max}, got ${size}`
+    );
+  }
+
+  if (isDefined(rule.properties) && typeOf(value) === 'object') {
+    violations.push(
+      ...validate(
+        value as Record<string, unknown>,
+        rule.properties,
+        path,
+        config
+      )
+    );
+  }
+
+  if (isDefined(rule.items) && isArr(value)) {
+    (value as Array<unknown>).forEach((item, index) =>
+      violations.push(...check(item, rule.items, `${path}[${index}]`, config))
+    );
+  }
+
+  if (isFunc(rule.check)) {
+    const result = rule.check(value, config);
+    if (result === false) violations.push(`${path}: is invalid`);
+    if (typeof result === 'string') violations.push(`${path}: ${result}`);
+  }
+
+  return violations;
+}
+
+/**
+ * Checks the properties of an object against a schema and collects all violations.
+ *
+ * Undefined properties are assigned their rule `default` before they are checked.
+ *
+ * @param object The object to check.
+ * @param schema The schema to check the object against.
+ * @param path The key path of the object, empty for the root configuration.
+ * @param config The whole configuration object, passed to custom checks.
+ * @returns The list of violations, empty if the object is valid.
+ */
+export function validate(
+  object: Record<string, unknown>,
+  schema: Schema,
+  path: string = '',
+  config: unknown = object
+): Array<string> {
+  return Object.keys(schema).reduce((violations, key) => {
+    const rule = schema[key];
+
+    if (isUndefined(object[key]) && isDefined(rule.default)) {
+      object[key] = clone(rule.default);
+    }
+
+    const name = path === '' ? key : `${path}.${key}`;
+    return violations.concat(check(object[key], rule, name, config));
+  }, [] as Array<string>);
+}
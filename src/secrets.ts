@@ -0,0 +1,192 @@
+import { inspect } from 'util';
+import { isArr, isDefined } from '@megaorm/test';
+import { isPlain } from './utils';
+
+/**
+ * The text replacing secret values.
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Returns the entries of plain objects and arrays, with array indexes as keys.
+ *
+ * @param value The value to list.
+ * @returns The key/value pairs, empty for any other value.
+ */
+function entries(value: unknown): Array<[string, unknown]> {
+  if (isArr(value) || isPlain(value)) {
+    return Object.keys(value).map((key) => [key, value[key]]);
+  }
+
+  return [];
+}
+
+/**
+ * Checks whether a key path matches the segments of a secret pattern.
+ *
+ * @param pattern The segments of the pattern.
+ * @param path The segments of the key path.
+ * @returns `true` if the key path matches the pattern.
+ */
+function matches(pattern: Array<string>, path: Array<string>): boolean {
+  if (pattern.length === 0) return path.length === 0;
+
+  const [segment, ...rest] = pattern;
+
+  // `**` matches any number of keys, including none
+  if (segment === '**') {
+    return (
+      matches(rest, path) ||
+      (path.length > 0 && matches(pattern, path.slice(1)))
+    );
+  }
+
+  if (path.length === 0) return false;
+  if (segment !== '*' && segment !== path[0]) return false;
+  return matches(rest, path.slice(1));
+}
+
+/**
+ * Checks whether a key path is secret.
+ *
+ * - Patterns are dot-separated key paths, e.g. `cluster.password`.
+ * - `*` matches exactly one key, e.g. `*.password` matches `db.password`.
+ * - `**` matches any number of keys, e.g. `**.token` matches `token` and `api.github.token`.
+ *
+ * @param path The segments of the key path.
+ * @param patterns The secret patterns.
+ * @returns `true` if the key path matches any of the patterns.
+ */
+export function isSecret(
+  path: Array<string>,
+  patterns: Array<string>
+): boolean {
+  return patterns.some((pattern) => matches(pattern.split('.'), path));
+}
+
+/**
+ * Creates a deep copy of the given value with its secret values replaced by `[REDACTED]`.
+ *
+ * Only plain objects and arrays are copied, other values such as class
+ * instances and functions are kept by reference.
+ *
+ * @param value The value to redact.
+ * @param patterns The secret patterns.
+ * @param path The key path of the value, empty for the root configuration.
+ * @returns The redacted copy.
+ */
+export function redact<T>(
+  value: T,
+  patterns: Array<string>,
+  path: Array<string> = []
+): T {
+  if (path.length > 0 && isDefined(value) && isSecret(path, patterns)) {
+    return REDACTED as unknown as T;
+  }
+
+  if (isArr(value)) {
+    return (value as Array<unknown>).map((item, index) =>
+      redact(item, patterns, [...path, String(index)])
+    ) as unknown as T;
+  }
+
+  if (isPlain(value)) {
+    return entries(value).reduce((copy, [key, item]) => {
+      copy[key] = redact(item, patterns, [...path, key]);
+      return copy;
+    }, {} as Record<string, unknown>) as T;
+  }
+
+  return value;
+}
+
+/**
+ * Collects the secret strings of the given value.
+ * Numbers, bigints and booleans are collected as strings, since they are printed in messages too.
+ *
+ * @param value The value to search.
+ * @param patterns The secret patterns.
+ * @param path The key path of the value, empty for the root configuration.
+ * @param secret Whether the value is nested in a secret value.
+ * @returns The secret strings.
+ */
+function collect(
+  value: unknown,
+  patterns: Array<string>,
+  path: Array<string> = [],
+  secret: boolean = false
+): Array<string> {
+  secret = secret || (path.length > 0 && isSecret(path, patterns));
+
+  if (
+    secret &&
+    ['string', 'number', 'bigint', 'boolean'].includes(typeof value)
+  ) {
+    return [String(value)];
+  }
+
+  return entries(value).reduce(
+    (secrets, [key, item]) =>
+      secrets.concat(collect(item, patterns, [...path, key], secret)),
+    [] as Array<string>
+  );
+}
+
+/**
+ * Replaces the secret strings of a configuration in a message with `[REDACTED]`.
+ *
+ * @param message The message to conceal secrets in, e.g. an error message.
+ * @param config The configuration holding the secrets.
+ * @param patterns The secret patterns.
+ * @returns The message without secrets.
+ */
+export function conceal(
+  message: string,
+  config: unknown,
+  patterns: Array<string>
+): string {
+  return collect(config, patterns)
+    .filter((secret) => secret !== '')
+    .sort((a, b) => b.length - a.length)
+    .reduce((message, secret) => message.split(secret).join(REDACTED), message);
+}
+
+/**
+ * Hides the secret values of a configuration when it's serialized or inspected.
+ *
+ * - Plain objects and arrays holding secrets get non-enumerable `toJSON` and `util.inspect.custom`
+ *   methods returning a redacted copy, so `JSON.stringify` and `console.log` never print secrets.
+ * - Property access still returns the real values.
+ *
+ * @param value The configuration to protect, modified in place.
+ * @param patterns The secret patterns.
+ * @param path The key path of the value, empty for the root configuration.
+ * @returns `true` if the value holds secrets.
+ */
+export function protect(
+  value: unknown,
+  patterns: Array<string>,
+  path: Array<string> = []
+): boolean {
+  if (path.length > 0 && isSecret(path, patterns)) return true;
+
+  const secret = entries(value)
+    .map(([key, item]) => protect(item, patterns, [...path, key]))
+    .includes(true);
+
+  if (secret && Object.isExtensible(value)) {
+    const redacted = () => redact(value, patterns, path);
+
+    Object.defineProperty(value, 'toJSON', {
+      value: redacted,
+      configurable: true,
+    });
+
+    Object.defineProperty(value, inspect.custom, {
+      value: redacted,
+      configurable: true,
+    });
+  }
+
+  return secret;
+}
@@ -0,0 +1,656 @@
+import { ParseError } from './utils';
+
+/**
+ * The escape sequences supported in basic strings.
+ */
+const ESCAPES: Record<string, string> = {
+  b: '\b',
+  t: '\t',
+  n: '\n',
+  f: '\f',
+  r: '\r',
+  '"': '"',
+  '\\': '\\',
+};
+
+/**
+ * Matches the values that are not strings, arrays or inline tables.
+ */
+const PATTERNS = {
+  datetime:
+    /\d{4}-\d{2}-\d{2}(?:[Tt ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:[Zz]|[+-]\d{2}:\d{2})?)?/y,
+  time: /\d{2}:\d{2}:\d{2}(?:\.\d+)?/y,
+  hex: /0x[0-9A-Fa-f](?:_?[0-9A-Fa-f])*/y,
+  octal: /0o[0-7](?:_?[0-7])*/y,
+  binary: /0b[01](?:_?[01])*/y,
+  float:
+    /[+-]?(?:0|[1-9](?:_?\d)*)(?:\.\d(?:_?\d)*(?:[eE][+-]?\d(?:_?\d)*)?|[eE][+-]?\d(?:_?\d)*)/y,
+  integer: /[+-]?(?:0|[1-9](?:_?\d)*)/y,
+  special: /[+-]?(?:inf|nan)/y,
+  boolean: /true|false/y,
+};
+
+/**
+ * A TOML v1.0 parser.
+ *
+ * - Offset date-times, local date-times and local dates are parsed as `Date` objects.
+ *   Local date-times and local dates are interpreted in UTC.
+ * - Local times are kept as strings.
+ */
+class Parser {
+  /**
+   * The TOML source.
+   */
+  private source: string;
+
+  /**
+   * The index of the current character.
+   */
+  private index = 0;
+
+  /**
+   * The root table.
+   */
+  private root: Record<string, unknown> = {};
+
+  /**
+   * The table receiving the key/value pairs.
+   */
+  private table: Record<string, unknown> = this.root;
+
+  /**
+   * The tables defined using a `[table]` header.
+   */
+  private headers = new Set<object>();
+
+  /**
+   * The tables created implicitly by a header, e.g. `a` for `[a.b]`.
+   */
+  private implicit = new Set<object>();
+
+  /**
+   * The inline tables, which cannot be extended.
+   */
+  private frozen = new Set<object>();
+
+  /**
+   * The arrays created using `[[array]]` headers.
+   */
+  private arrays = new Set<object>();
+
+  /**
+   * Creates a parser for the given TOML source.
+   *
+   * @param source The TOML source.
+   */
+  constructor(source: string) {
+    this.source = source;
+  }
+
+  /**
+   * Creates a parse error located at the given index.
+   *
+   * @param message The error description.
+   * @param index The index of the error in the source.
+   * @returns The parse error.
+   */
+  private error(message: string, index = this.index): ParseError {
+    const lines = this.source.slice(0, index).split('\n');
+    return new ParseError(
+      message,
+      lines.length,
+      lines[lines.length - 1].length + 1
+    );
+  }
+
+  /**
+   * Returns the current character.
+   *
+   * @returns The current character, or an empty string at the end of the source.
+   */
+  private get char(): string {
+    return this.source.charAt(this.index);
+  }
+
+  /**
+   * Skips spaces and tabs.
+   */
+  private space(): void {
+    while (this.char === ' ' || this.char === '\t') this.index++;
+  }
+
+  /**
+   * Skips a comment if any.
+   */
+  private comment(): void {
+    if (this.char !== '#') return;
+
+    while (
+      this.index < this.source.length &&
+      this.source[this.index] !== '\n'
+    ) {
+      const code = this.source.charCodeAt(this.index);
+
+      if ((code < 0x20 && code !== 0x09 && code !== 0x0d) || code === 0x7f) {
+        throw this.error('Control characters are not allowed in comments');
+      }
+
+      this.index++;
+    }
+  }
+
+  /**
+   * Skips a newline if any.
+   *
+   * @returns `true` if a newline was skipped, otherwise `false`.
+   */
+  private newline(): boolean {
+    if (this.char === '\n') {
+      this.index++;
+      return true;
+    }
+
+    if (this.source.startsWith('\r\n', this.index)) {
+      this.index += 2;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Skips spaces, comments and newlines.
+   */
+  private blank(): void {
+    do {
+      this.space();
+      this.comment();
+    } while (this.newline());
+  }
+
+  /**
+   * Ensures the current line ends after spaces and an optional comment.
+   */
+  private end(): void {
+    this.space();
+    this.comment();
+
+    if (this.index < this.source.length && !this.newline()) {
+      throw this.error('Expected the end of the line');
+    }
+  }
+
+  /**
+   * Parses the whole document.
+   *
+   * @returns The root table.
+   */
+  public parse(): Record<string, unknown> {
+    for (this.blank(); this.index < this.source.length; this.blank()) {
+      if (this.char === '[') this.header();
+      else this.pair(this.table);
+
+      this.end();
+    }
+
+    return this.root;
+  }
+
+  /**
+   * Parses a `[table]` or `[[array]]` header and makes it the current table.
+   */
+  private header(): void {
+    const start = this.index;
+    const array = this.source.startsWith('[[', this.index);
+
+    this.index += array ? 2 : 1;
+    this.space();
+
+    const keys = this.key();
+
+    this.space();
+    if (!this.source.startsWith(array ? ']]' : ']', this.index)) {
+      throw this.error(`Expected "${array ? ']]' : ']'}"`);
+    }
+
+    this.index += array ? 2 : 1;
+
+    const last = keys.pop();
+    const parent = keys.reduce(
+      (table, key) => this.descend(table, key, start, true),
+      this.root
+    );
+
+    if (array) {
+      if (!Object.prototype.hasOwnProperty.call(parent, last)) {
+        const tables: Array<unknown> = [];
+        this.arrays.add(tables);
+        parent[last] = tables;
+      }
+
+      const tables = parent[last] as Array<unknown>;
+
+      if (!this.arrays.has(tables)) {
+        throw this.error(
+          `Cannot redefine "${last}" as an array of tables`,
+          start
+        );
+      }
+
+      this.table = {};
+      tables.push(this.table);
+      return;
+    }
+
+    if (Object.prototype.hasOwnProperty.call(parent, last)) {
+      const table = parent[last] as Record<string, unknown>;
+
+      if (!this.implicit.has(table)) {
+        throw this.error(`Table "${last}" is already defined`, start);
+      }
+
+      this.implicit.delete(table);
+      this.headers.add(table);
+      this.table = table;
+      return;
+    }
+
+    this.table = {};
+    this.headers.add(this.table);
+    parent[last] = this.table;
+  }
+
+  /**
+   * Returns the table stored under a key, creating it if needed.
+   *
+   * @param table The parent table.
+   * @param key The key of the table.
+   * @param start The index used to report errors.
+   * @param header Whether the key is part of a header, otherwise it's a dotted key.
+   * @returns The child table.
+   */
+  private descend(
+    table: Record<string, unknown>,
+    key: string,
+    start: number,
+    header: boolean
+  ): Record<string, unknown> {
+    if (!Object.prototype.hasOwnProperty.call(table, key)) {
+      const child = {};
+      if (header) this.implicit.add(child);
+      table[key] = child;
+      return child;
+    }
+
+    const value = table[key];
+
+    if (header && this.arrays.has(value as object)) {
+      const tables = value as Array<Record<string, unknown>>;
+      return tables[tables.length - 1];
+    }
+
+    if (
+      typeof value !== 'object' ||
+      value === null ||
+      Array.isArray(value) ||
+      value instanceof Date ||
+      this.frozen.has(value) ||
+      (!header && (this.headers.has(value) || this.implicit.has(value)))
+    ) {
+      throw this.error(`Cannot redefine "${key}"`, start);
+    }
+
+    return value as Record<string, unknown>;
+  }
+
+  /**
+   * Parses a `key = value` pair into the given table.
+   *
+   * @param table The table receiving the pair.
+   */
+  private pair(table: Record<string, unknown>): void {
+    const start = this.index;
+    const keys = this.key();
+
+    this.space();
+    if (this.char !== '=') throw this.error('Expected "="');
+    this.index++;
+    this.space();
+
+    const last = keys.pop();
+    const parent = keys.reduce(
+      (table, key) => this.descend(table, key, start, false),
+      table
+    );
+
+    if (Object.prototype.hasOwnProperty.call(parent, last)) {
+      throw this.error(`Duplicate key "${last}"`, start);
+    }
+
+    parent[last] = this.value();
+  }
+
+  /**
+   * Parses a bare, quoted or dotted key.
+   *
+   * @returns The key parts.
+   */
+  private key(): Array<string> {
+    const keys: Array<string> = [];
+
+    do {
+      this.space();
+
+      if (this.char === '"' || this.char === "'") {
+        if (this.source.startsWith(this.char.repeat(3), this.index)) {
+          throw this.error('Multi-line strings cannot be used as keys');
+        }
+
+        keys.push(this.string());
+      } else {
+        const match = /[A-Za-z0-9_-]+/y;
+        match.lastIndex = this.index;
+
+        if (!match.test(this.source)) throw this.error('Expected a key');
+
+        keys.push(this.source.slice(this.index, match.lastIndex));
+        this.index = match.lastIndex;
+      }
+
+      this.space();
+    } while (this.char === '.' && ++this.index);
+
+    return keys;
+  }
+
+  /**
+   * Parses a value.
+   *
+   * @returns The parsed value.
+   */
+  private value(): unknown {
+    const char = this.char;
+
+    if (char === '"' || char === "'") return this.string();
+    if (char === '[') return this.array();
+    if (char === '{') return this.inline();
+
+    const start = this.index;
+    const match = (name: keyof typeof PATTERNS): string | undefined => {
+      const pattern = PATTERNS[name];
+      pattern.lastIndex = start;
+
+      if (!pattern.test(this.source)) return undefined;
+
+      // The value must end before the next delimiter
+      if (
+        !/^(?:[ \t,\]}#\n]|\r\n|$)/.test(this.source.slice(pattern.lastIndex))
+      ) {
+        return undefined;
+      }
+
+      this.index = pattern.lastIndex;
+      return this.source.slice(start, this.index);
+    };
+
+    let text: string;
+
+    if ((text = match('datetime'))) return this.date(text, start);
+    if ((text = match('time'))) return text;
+    if ((text = match('boolean'))) return text === 'true';
+    if ((text = match('hex')))
+      return parseInt(text.slice(2).replace(/_/g, ''), 16);
+    if ((text = match('octal')))
+      return parseInt(text.slice(2).replace(/_/g, ''), 8);
+    if ((text = match('binary')))
+      return parseInt(text.slice(2).replace(/_/g, ''), 2);
+    if ((text = match('float'))) return parseFloat(text.replace(/_/g, ''));
+    if ((text = match('integer'))) return parseInt(text.replace(/_/g, ''), 10);
+
+    if ((text = match('special'))) {
+      if (text.endsWith('nan')) return NaN;
+      return text.startsWith('-') ? -Infinity : Infinity;
+    }
+
+    throw this.error('Invalid value');
+  }
+
+  /**
+   * Parses a date or a date-time.
+   *
+   * @param text The date or date-time text.
+   * @param start The index of the date, used to report errors.
+   * @returns The parsed date.
+   */
+  private date(text: string, start: number): Date {
+    let iso = text.replace(' ', 'T').toUpperCase();
+
+    if (iso.length === 10) iso += 'T00:00:00Z';
+    else if (!/(?:Z|[+-]\d{2}:\d{2})$/.test(iso)) iso += 'Z';
+
+    const date = new Date(iso);
+    const [year, month, day] = text.slice(0, 10).split('-').map(Number);
+
+    if (
+      isNaN(date.getTime()) ||
+      month < 1 ||
+      month > 12 ||
+      day > new Date(Date.UTC(year, month, 0)).getUTCDate()
+    ) {
+      throw this.error(`Invalid date "${text}"`, start);
+    }
+
+    return date;
+  }
+
+  /**
+   * Parses a basic, literal or multi-line string.
+   *
+   * @returns The string value.
+   */
+  private string(): string {
+    const start = this.index;
+    const quote = this.char;
+    const multi = this.source.startsWith(quote.repeat(3), this.index);
+
+    this.index += multi ? 3 : 1;
+
+    // A newline right after the opening delimiter is trimmed
+    if (multi) this.newline();
+
+    let value = '';
+
+    while (this.index < this.source.length) {
+      const char = this.char;
+
+      if (char === quote) {
+        if (!multi) {
+          this.index++;
+          return value;
+        }
+
+        if (this.source.startsWith(quote.repeat(3), this.index)) {
+          // Up to two quotes can precede the closing delimiter
+          let extra = 0;
+          while (extra < 2 && this.source[this.index + 3 + extra] === quote) {
+            extra++;
+          }
+
+          this.index += 3 + extra;
+          return value + quote.repeat(extra);
+        }
+      }
+
+      if (char === '\n' || this.source.startsWith('\r\n', this.index)) {
+        if (!multi) break;
+
+        value += '\n';
+        this.newline();
+        continue;
+      }
+
+      const code = this.source.charCodeAt(this.index);
+      if ((code < 0x20 && code !== 0x09) || code === 0x7f) {
+        throw this.error('Control characters must be escaped');
+      }
+
+      if (char === '\\' && quote === '"') {
+        value += this.escape(multi);
+        continue;
+      }
+
+      value += char;
+      this.index++;
+    }
+
+    throw this.error('Unterminated string', start);
+  }
+
+  /**
+   * Parses an escape sequence in a basic string.
+   *
+   * @param multi Whether the string is a multi-line string.
+   * @returns The escaped characters.
+   */
+  private escape(multi: boolean): string {
+    const start = this.index;
+    const char = this.source[++this.index];
+
+    if (ESCAPES[char]) {
+      this.index++;
+      return ESCAPES[char];
+    }
+
+    if (char === 'u' || char === 'U') {
+      const length = char === 'u' ? 4 : 8;
+      const hex = this.source.slice(this.index + 1, this.index + 1 + length);
+      const code = parseInt(hex, 16);
+
+      if (
+        !/^[0-9A-Fa-f]+$/.test(hex) ||
+        hex.length !== length ||
+        code > 0x10ffff ||
+        (code >= 0xd800 && code <= 0xdfff)
+      ) {
+        throw this.error('Invalid unicode escape', start);
+      }
+
+      this.index += 1 + length;
+      return String.fromCodePoint(code);
+    }
+
+    if (multi) {
+      // A line ending backslash trims the following whitespace and newlines
+      const match = /[ \t]*\r?\n[ \t\r\n]*/y;
+      match.lastIndex = this.index;
+
+      if (match.test(this.source)) {
+        this.index = match.lastIndex;
+        return '';
+      }
+    }
+
+    throw this.error('Invalid escape sequence', start);
+  }
+
+  /**
+   * Parses an array, which can span multiple lines.
+   *
+   * @returns The parsed array.
+   */
+  private array(): Array<unknown> {
+    const start = this.index++;
+    const result: Array<unknown> = [];
+
+    for (this.blank(); this.char !== ']'; this.blank()) {
+      if (this.index >= this.source.length) {
+        throw this.error('Unterminated array', start);
+      }
+
+      result.push(this.value());
+      this.blank();
+
+      if (this.index >= this.source.length) {
+        throw this.error('Unterminated array', start);
+      }
+
+      if (this.char === ',') this.index++;
+      else if (this.char !== ']') throw this.error('Expected "," or "]"');
+    }
+
+    this.index++;
+    return result;
+  }
+
+  /**
+   * Parses an inline table, which must fit on a single line.
+   *
+   * @returns The parsed table.
+   */
+  private inline(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.index++;
+    this.space();
+
+    if (this.char === '}') {
+      this.index++;
+      this.freeze(result);
+      return result;
+    }
+
+    for (;;) {
+      this.pair(result);
+      this.space();
+
+      if (this.char === ',') {
+        this.index++;
+        this.space();
+        continue;
+      }
+
+      if (this.char === '}') break;
+      throw this.error('Expected "," or "}"');
+    }
+
+    this.index++;
+    this.freeze(result);
+    return result;
+  }
+
+  /**
+   * Prevents an inline table and the tables created by its dotted keys from being extended.
+   *
+   * @param table The table to freeze.
+   */
+  private freeze(table: Record<string, unknown>): void {
+    this.frozen.add(table);
+
+    Object.values(table).forEach((value) => {
+      if (
+        typeof value === 'object' &&
+        value !== null &&
+        !Array.isArray(value) &&
+        !(value instanceof Date)
+      ) {
+        this.freeze(value as Record<string, unknown>);
+      }
+    });
+  }
+}
+
+/**
+ * Parses a TOML document.
+ *
+ * - Supports tables, arrays of tables, inline tables, dotted keys and comments.
+ * - Supports all string types, integers, floats, booleans, arrays, dates and times.
+ * - Offset date-times, local date-times and local dates are parsed as `Date` objects,
+ *   local date-times and local dates are interpreted in UTC.
+ * - Local times are kept as strings, e.g. `07:32:00`.
+ *
+ * @param source The TOML source.
+ * @returns The root table.
+ * @throws `ParseError` with the line and column of the error if the document is invalid.
+ */
+export function parse(source: string): Record<string, unknown> {
+  return new Parser(source).parse();
+}
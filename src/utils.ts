@@ -0,0 +1,352 @@
+import Module from 'module';
+import { readFileSync, statSync } from 'fs';
+import { dirname, extname, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { isArr, isObj } from '@megaorm/test';
+
+/**
+ * How arrays are handled when configurations are merged.
+ *
+ * - `replace`: The array from the merged configuration replaces the existing one.
+ * - `concat`: The array from the merged configuration is appended to the existing one.
+ */
+export type ArrayMerge = 'replace' | 'concat';
+
+/**
+ * Checks if the given value is a plain object (created by `{}`, `Object.create(null)` or `JSON.parse`).
+ *
+ * @param value The value to check.
+ * @returns `true` if the value is a plain object, otherwise `false`.
+ */
+export function isPlain(value: unknown): value is Record<string, unknown> {
+  if (!isObj(value)) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === null || Object.getPrototypeOf(proto) === null;
+}
+
+/**
+ * Creates a deep copy of the given value.
+ *
+ * Only plain objects and arrays are copied, other values such as class
+ * instances and functions are kept by reference.
+ *
+ * @param value The value to copy.
+ * @returns The copied value.
+ */
+export function clone<T>(value: T): T {
+  if (isArr(value)) return (value as Array<unknown>).map(clone) as T;
+
+  if (isPlain(value)) {
+    return Object.keys(value).reduce((copy, key) => {
+      copy[key] = clone(value[key]);
+      return copy;
+    }, {} as Record<string, unknown>) as T;
+  }
+
+  return value;
+}
+
+/**
+ * Deep-freezes the given value in place.
+ *
+ * Only plain objects and arrays are frozen, other values such as class
+ * instances and functions are left untouched.
+ *
+ * @param value The value to freeze.
+ * @returns The frozen value.
+ */
+export function deepFreeze<T>(value: T): T {
+  if ((isArr(value) || isPlain(value)) && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    Object.keys(value).forEach((key) => deepFreeze(value[key]));
+  }
+
+  return value;
+}
+
+/**
+ * Deep-merges the source value over the target value without mutating them.
+ *
+ * - Plain objects are merged key by key.
+ * - Arrays are replaced, or concatenated if `arrays` is set to `concat`.
+ * - Any other source value replaces the target value.
+ *
+ * @param target The value to merge into.
+ * @param source The value to merge over the target.
+ * @param arrays How arrays are merged: `replace` (default) or `concat`.
+ * @returns The merged value.
+ */
+export function merge(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>,
+  arrays?: ArrayMerge
+): Record<string, unknown>;
+
+export function merge(
+  target: unknown,
+  source: unknown,
+  arrays?: ArrayMerge
+): unknown;
+
+export function merge(
+  target: unknown,
+  source: unknown,
+  arrays: ArrayMerge = 'replace'
+): unknown {
+  if (arrays === 'concat' && isArr(target) && isArr(source)) {
+    return clone(target as Array<unknown>).concat(clone(source));
+  }
+
+  if (!isPlain(target) || !isPlain(source)) return clone(source);
+
+  return Object.keys(source).reduce(
+    (result, key) => {
+      result[key] = merge(target[key], source[key], arrays);
+      return result;
+    },
+    { ...target }
+  );
+}
+
+/**
+ * Checks if the given value is a promise (or any thenable).
+ *
+ * @param value The value to check.
+ * @returns `true` if the value has a `then` method, otherwise `false`.
+ */
+export function isPromise(value: unknown): value is Promise<unknown> {
+  return (
+    value !== null &&
+    (typeof value === 'object' || typeof value === 'function') &&
+    typeof (value as Promise<unknown>).then === 'function'
+  );
+}
+
+/**
+ * Passes a value to the next step, waiting for it first if it's a promise.
+ *
+ * This keeps steps synchronous when all values are, and returns a promise otherwise.
+ *
+ * @param value The value or the promise of it.
+ * @param next The next step.
+ * @returns The result of the next step, or a promise of it.
+ */
+export function chain<T, R>(
+  value: T | Promise<T>,
+  next: (value: T) => R | Promise<R>
+): R | Promise<R> {
+  return isPromise(value) ? value.then(next) : next(value as T);
+}
+
+/**
+ * Imports an ES module using the native `import()`.
+ *
+ * The import is wrapped in a function so TypeScript does not compile it to `require()`.
+ */
+const dynamicImport = new Function('specifier', 'return import(specifier)') as (
+  specifier: string
+) => Promise<unknown>;
+
+/**
+ * The number of fresh imports, used to bypass the ES module cache.
+ */
+let imports = 0;
+
+/**
+ * Imports a module file using the native `import()`.
+ *
+ * @param path The absolute path to the module file.
+ * @param fresh Whether to bypass the ES module cache and import the file again.
+ * @returns A Promise that resolves with the module namespace.
+ */
+export function importModule(
+  path: string,
+  fresh: boolean = false
+): Promise<unknown> {
+  const url = pathToFileURL(path).href;
+  return dynamicImport(fresh ? `${url}?reload=${++imports}` : url);
+}
+
+/**
+ * Resolves a relative import to a TypeScript file.
+ *
+ * The specifier is tried as is, with the `.ts` extension, then as a directory with an `index.ts` file.
+ *
+ * @param id The relative import specifier, e.g. `./db`.
+ * @param parent The path of the importing module.
+ * @returns The path of the TypeScript file, or `undefined` if there is none.
+ */
+function resolveTS(id: string, parent: string): string | undefined {
+  const target = resolve(dirname(parent), id);
+
+  return [target, `${target}.ts`, join(target, 'index.ts')]
+    .filter((file) => extname(file).toLowerCase() === '.ts')
+    .find((file) => {
+      const stats = statSync(file, { throwIfNoEntry: false });
+      return stats !== undefined && stats.isFile();
+    });
+}
+
+/**
+ * Evaluates CommonJS code as a module located at the given path.
+ *
+ * - The module is not added to the `require` cache.
+ * - Relative `require()` calls of `.js`, `.cjs` and `.json` files are also read from disk,
+ *   so local imports are always fresh. Packages are required as usual.
+ * - If `transpile` is given, relative imports of `.ts` files are transpiled and evaluated the same way.
+ *   They take precedence over JavaScript files, as they do in TypeScript.
+ * - The module and its local imports are added to `modules`, so they can be listed afterwards.
+ *
+ * @param code The CommonJS code to evaluate.
+ * @param path The absolute path of the module.
+ * @param modules The modules evaluated so far, used to resolve circular imports.
+ * @param transpile Transpiles the TypeScript files imported by the module to CommonJS.
+ * @returns The module exports.
+ */
+export function compile(
+  code: string,
+  path: string,
+  modules: Map<string, any> = new Map(),
+  transpile?: (source: string, path: string) => string
+): unknown {
+  const module = new Module(path) as any;
+  const require = module.require;
+
+  module.filename = path;
+  module.paths = (Module as any)._nodeModulePaths(dirname(path));
+  module.require = function (id: string): unknown {
+    if (!/^\.\.?(?:[\\/]|$)/.test(id)) return require.call(this, id);
+
+    const typescript = transpile ? resolveTS(id, path) : undefined;
+    const file = typescript || (Module as any)._resolveFilename(id, module);
+    const extension = extname(file).toLowerCase();
+
+    if (!['.js', '.cjs', '.json'].includes(extension) && !typescript) {
+      return require.call(this, id);
+    }
+
+    // Circular imports resolve with the partially evaluated exports
+    if (modules.has(file)) return modules.get(file).exports;
+
+    if (extension === '.json') {
+      const exports = JSON.parse(readFileSync(file, 'utf-8'));
+      modules.set(file, { exports });
+      return exports;
+    }
+
+    const source = readFileSync(file, 'utf-8');
+    const code = typescript ? transpile(source, file) : source;
+
+    return compile(code, file, modules, transpile);
+  };
+
+  modules.set(path, module);
+  module._compile(code, path);
+  module.loaded = true;
+
+  return module.exports;
+}
+
+/**
+ * Requires a CommonJS module file, bypassing the `require` cache.
+ *
+ * The file and its local relative imports are read from disk and evaluated again.
+ *
+ * @param path The absolute path to the module file.
+ * @param modules Receives the evaluated modules, keyed by path.
+ * @returns The module exports.
+ */
+export function requireFresh(
+  path: string,
+  modules: Map<string, any> = new Map()
+): unknown {
+  return compile(readFileSync(path, 'utf-8'), path, modules);
+}
+
+/**
+ * Unwraps the `default` export of ES modules and transpiled modules.
+ *
+ * - ES module namespaces resolve to their `default` export, or a plain copy of their named exports.
+ * - CommonJS modules marked with `__esModule` resolve to their `default` export if defined.
+ * - Any other value is returned as is.
+ *
+ * @param module The loaded module.
+ * @returns The module configuration.
+ */
+export function unwrap(module: any): unknown {
+  if (module === null || typeof module !== 'object') return module;
+
+  if (module[Symbol.toStringTag] === 'Module') {
+    return 'default' in module ? module.default : { ...module };
+  }
+
+  if (module.__esModule && 'default' in module) return module.default;
+
+  return module;
+}
+
+/**
+ * Error class for syntax errors found while parsing config files.
+ *
+ * It records the position of the error so loaders can report it.
+ */
+export class ParseError extends Error {
+  /**
+   * The line of the error, starting at 1.
+   */
+  public line: number;
+
+  /**
+   * The column of the error, starting at 1.
+   */
+  public column: number;
+
+  /**
+   * Creates a new parse error.
+   *
+   * @param message The description of the syntax error.
+   * @param line The line of the error, starting at 1.
+   * @param column The column of the error, starting at 1.
+   */
+  constructor(message: string, line: number, column: number) {
+    super(message);
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/**
+ * Renders the lines around a position in a source, pointing at its column.
+ *
+ * @example
+ * frame('{\n  "a": 1,,\n}', 2, 10);
+ * //   1 | {
+ * // > 2 |   "a": 1,,
+ * //     |          ^
+ * //   3 | }
+ *
+ * @param source The source code.
+ * @param line The line to point at, starting at 1.
+ * @param column The column to point at, starting at 1.
+ * @returns The code frame.
+ */
+export function frame(source: string, line: number, column: number): string {
+  const lines = source.split(/\r?\n/);
+  const first = Math.max(line - 2, 0);
+  const last = Math.min(line + 1, lines.length);
+  const width = String(last).length;
+
+  return lines
+    .slice(first, last)
+    .map((text, index) => {
+      const number = first + index + 1;
+      const gutter = String(number).padStart(width);
+
+      if (number !== line) return `  ${gutter} | ${text}`.trimEnd();
+
+      // Keep tabs so the caret is aligned with the source
+      const padding = text.slice(0, column - 1).replace(/[^\t]/g, ' ');
+      return `> ${gutter} | ${text}\n  ${' '.repeat(width)} | ${padding}^`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,775 @@
+import { ParseError } from './utils';
+
+/**
+ * A line of a YAML document.
+ */
+interface Line {
+  /**
+   * The line number, starting at 1.
+   */
+  number: number;
+
+  /**
+   * The number of spaces before the line content.
+   */
+  indent: number;
+
+  /**
+   * The line without its indentation, comments included.
+   */
+  text: string;
+}
+
+/**
+ * The escape sequences supported in double-quoted strings.
+ */
+const ESCAPES: Record<string, string> = {
+  '0': '\0',
+  a: '\x07',
+  b: '\b',
+  t: '\t',
+  '\t': '\t',
+  n: '\n',
+  v: '\v',
+  f: '\f',
+  r: '\r',
+  e: '\x1b',
+  ' ': ' ',
+  '"': '"',
+  '/': '/',
+  '\\': '\\',
+  N: '\x85',
+  _: '\xa0',
+  L: '\u2028',
+  P: '\u2029',
+};
+
+/**
+ * The number of hex digits following the `\x`, `\u` and `\U` escapes.
+ */
+const HEX_ESCAPES: Record<string, number> = { x: 2, u: 4, U: 8 };
+
+/**
+ * Resolves a plain scalar to its value using the YAML 1.2 core schema.
+ *
+ * @param value The plain scalar text.
+ * @returns `null`, a boolean, a number or the string itself.
+ */
+function resolve(value: string): unknown {
+  if (/^(?:null|Null|NULL|~|)$/.test(value)) return null;
+  if (/^(?:true|True|TRUE)$/.test(value)) return true;
+  if (/^(?:false|False|FALSE)$/.test(value)) return false;
+  if (/^[-+]?[0-9]+$/.test(value)) return parseInt(value, 10);
+  if (/^0o[0-7]+$/.test(value)) return parseInt(value.slice(2), 8);
+  if (/^0x[0-9a-fA-F]+$/.test(value)) return parseInt(value.slice(2), 16);
+
+  if (
+    /^[-+]?(?:\.[0-9]+|[0-9]+(?:\.[0-9]*)?)(?:[eE][-+]?[0-9]+)?$/.test(value)
+  ) {
+    return parseFloat(value);
+  }
+
+  if (/^[-+]?\.(?:inf|Inf|INF)$/.test(value)) {
+    return value.startsWith('-') ? -Infinity : Infinity;
+  }
+
+  if (/^\.(?:nan|NaN|NAN)$/.test(value)) return NaN;
+
+  return value;
+}
+
+/**
+ * Removes the comment at the end of a line, ignoring `#` inside quoted strings.
+ *
+ * @param text The line text.
+ * @returns The line text without its comment.
+ */
+function uncomment(text: string): string {
+  let quote: string;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quote) {
+      if (quote === '"' && char === '\\') i++;
+      else if (char === quote) quote = undefined;
+      continue;
+    }
+
+    if (
+      (char === '"' || char === "'") &&
+      (i === 0 || /[\s[{,]/.test(text[i - 1]))
+    ) {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i);
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Checks if a line content starts a sequence item.
+ *
+ * @param content The line content.
+ * @returns `true` if the content is a sequence item, otherwise `false`.
+ */
+function isItem(content: string): boolean {
+  return content === '-' || content.startsWith('- ');
+}
+
+/**
+ * A YAML parser supporting block and flow collections, scalars and comments.
+ *
+ * Anchors, aliases, tags and multiple documents are not supported.
+ */
+class Parser {
+  /**
+   * The lines of the document.
+   */
+  private lines: Array<Line>;
+
+  /**
+   * The index of the current line.
+   */
+  private index = 0;
+
+  /**
+   * Creates a parser for the given YAML source.
+   *
+   * @param source The YAML source.
+   */
+  constructor(source: string) {
+    this.lines = source.split(/\r?\n/).map((raw, index) => {
+      const indent = raw.length - raw.replace(/^ */, '').length;
+      return { number: index + 1, indent, text: raw.slice(indent) };
+    });
+  }
+
+  /**
+   * Creates a parse error located in the given line.
+   *
+   * @param message The error description.
+   * @param line The line of the error.
+   * @param column The column of the error, starting at 0.
+   * @returns The parse error.
+   */
+  private error(message: string, line: Line, column = line.indent): ParseError {
+    return new ParseError(message, line.number, column + 1);
+  }
+
+  /**
+   * Returns the content of a line without its comment and trailing spaces.
+   *
+   * @param line The line.
+   * @returns The line content.
+   */
+  private content(line: Line): string {
+    return uncomment(line.text).trimEnd();
+  }
+
+  /**
+   * Returns the next line with content, skipping blank lines and comments.
+   *
+   * @returns The next line, or `undefined` at the end of the document.
+   */
+  private peek(): Line | undefined {
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      const content = this.content(line);
+
+      if (content === '') {
+        this.index++;
+        continue;
+      }
+
+      if (/^\t/.test(line.text)) {
+        throw this.error('Tabs are not allowed for indentation', line);
+      }
+
+      if (line.indent === 0 && content === '...') {
+        this.index = this.lines.length;
+        return undefined;
+      }
+
+      if (line.indent === 0 && /^---(?:\s|$)/.test(content)) {
+        if (this.index !== 0 && this.started()) {
+          throw this.error('Multiple documents are not supported', line);
+        }
+
+        const rest = line.text.slice(3).replace(/^\s+/, '');
+        if (rest === '' || rest.startsWith('#')) {
+          this.index++;
+          continue;
+        }
+
+        // Content after the document start marker
+        this.lines[this.index] = {
+          number: line.number,
+          indent: line.text.length - rest.length,
+          text: rest,
+        };
+        continue;
+      }
+
+      if (line.indent === 0 && content.startsWith('%')) {
+        throw this.error('Directives are not supported', line);
+      }
+
+      return line;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Checks if any content line precedes the current line.
+   *
+   * @returns `true` if the document has started, otherwise `false`.
+   */
+  private started(): boolean {
+    return this.lines
+      .slice(0, this.index)
+      .some((line) => this.content(line) !== '' && !/^---/.test(line.text));
+  }
+
+  /**
+   * Parses the whole document.
+   *
+   * @returns The document value.
+   */
+  public parse(): unknown {
+    const value = this.block(0, -1);
+    const line = this.peek();
+
+    if (line) throw this.error('Unexpected content', line);
+
+    return value;
+  }
+
+  /**
+   * Parses a block node starting at the next line.
+   *
+   * @param indent The minimum indentation of the node.
+   * @param parent The indentation of the parent node.
+   * @returns The node value, or `null` if the node is empty.
+   */
+  private block(indent: number, parent: number): unknown {
+    const line = this.peek();
+
+    if (!line || line.indent < indent) return null;
+
+    const content = this.content(line);
+
+    if (isItem(content)) return this.sequence(line.indent);
+    if (this.key(content, line)) return this.mapping(line.indent);
+
+    this.index++;
+    return this.value(content, line, parent, line.indent);
+  }
+
+  /**
+   * Parses a block sequence.
+   *
+   * @param indent The indentation of the sequence items.
+   * @returns The parsed array.
+   */
+  private sequence(indent: number): Array<unknown> {
+    const result: Array<unknown> = [];
+
+    for (let line = this.peek(); line; line = this.peek()) {
+      if (line.indent < indent) break;
+
+      if (line.indent > indent) {
+        throw this.error('Unexpected indentation', line);
+      }
+
+      const content = this.content(line);
+      if (!isItem(content)) break;
+
+      if (content === '-') {
+        this.index++;
+        result.push(this.block(indent + 1, indent));
+        continue;
+      }
+
+      // Parse the item content as if it started on its own line
+      const offset = /^-\s*/.exec(line.text)[0].length - 1;
+
+      this.lines[this.index] = {
+        number: line.number,
+        indent: line.indent + 1 + offset,
+        text: line.text.slice(1 + offset),
+      };
+
+      result.push(this.block(line.indent + 1 + offset, indent));
+    }
+
+    return result;
+  }
+
+  /**
+   * Parses a block mapping.
+   *
+   * @param indent The indentation of the mapping keys.
+   * @returns The parsed object.
+   */
+  private mapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (let line = this.peek(); line; line = this.peek()) {
+      if (line.indent < indent) break;
+
+      if (line.indent > indent) {
+        throw this.error('Unexpected indentation', line);
+      }
+
+      const content = this.content(line);
+      const pair = this.key(content, line);
+
+      if (!pair) {
+        if (isItem(content)) break;
+        throw this.error('Expected a mapping key', line);
+      }
+
+      if (Object.prototype.hasOwnProperty.call(result, pair.key)) {
+        throw this.error(`Duplicate key "${pair.key}"`, line);
+      }
+
+      this.index++;
+
+      if (pair.value === '') {
+        const next = this.peek();
+
+        // Sequences can be indented at the same level as their key
+        result[pair.key] =
+          next && next.indent === indent && isItem(this.content(next))
+            ? this.sequence(indent)
+            : this.block(indent + 1, indent);
+      } else {
+        result[pair.key] = this.value(pair.value, line, indent, pair.column);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Splits a mapping entry into its key and value.
+   *
+   * @param content The line content.
+   * @param line The line.
+   * @returns The key, the value text and its column, or `undefined` if the content is not a mapping entry.
+   */
+  private key(
+    content: string,
+    line: Line
+  ): { key: string; value: string; column: number } | undefined {
+    let key: string;
+    let end: number;
+
+    if (content[0] === '"' || content[0] === "'") {
+      const quoted = this.quoted(content, 0, line);
+      const rest = content.slice(quoted.end);
+      const match = /^\s*:(?:\s|$)/.exec(rest);
+
+      if (!match) return undefined;
+
+      key = quoted.value;
+      end = quoted.end + match[0].length;
+    } else {
+      if (
+        /^[[{]/.test(content) ||
+        isItem(content) ||
+        content.startsWith('? ')
+      ) {
+        return undefined;
+      }
+
+      const match = /:(?:\s|$)/.exec(content);
+      if (!match) return undefined;
+
+      key = content.slice(0, match.index).trimEnd();
+      end = match.index + match[0].length;
+    }
+
+    const value = content.slice(end).trimStart();
+    const column = line.indent + content.length - value.length;
+
+    return { key, value, column };
+  }
+
+  /**
+   * Parses an inline value: a block scalar header, a flow collection or a scalar.
+   *
+   * @param text The value text.
+   * @param line The line of the value.
+   * @param parent The indentation of the parent node.
+   * @param column The column of the value, starting at 0.
+   * @returns The parsed value.
+   */
+  private value(
+    text: string,
+    line: Line,
+    parent: number,
+    column: number
+  ): unknown {
+    if (text[0] === '|' || text[0] === '>') {
+      return this.literal(text, line, parent, column);
+    }
+
+    if (text[0] === '[' || text[0] === '{') {
+      return this.flow(text, line, column);
+    }
+
+    if (text[0] === '"' || text[0] === "'") {
+      const quoted = this.quoted(text, 0, line, column);
+
+      if (text.slice(quoted.end).trim() !== '') {
+        throw this.error(
+          'Unexpected content after string',
+          line,
+          column + quoted.end
+        );
+      }
+
+      return quoted.value;
+    }
+
+    if (/^[&*!]/.test(text)) {
+      throw this.error(
+        'Anchors, aliases and tags are not supported',
+        line,
+        column
+      );
+    }
+
+    if (/^[@`]/.test(text)) {
+      throw this.error(`Reserved character "${text[0]}"`, line, column);
+    }
+
+    // Plain scalars can continue on more indented lines
+    const parts = [text];
+
+    for (
+      let next = this.peek();
+      next && next.indent > parent;
+      next = this.peek()
+    ) {
+      const content = this.content(next);
+
+      if (this.key(content, next) || isItem(content)) {
+        throw this.error('Unexpected indentation', next);
+      }
+
+      parts.push(content);
+      this.index++;
+    }
+
+    return parts.length > 1 ? parts.join(' ') : resolve(text);
+  }
+
+  /**
+   * Parses a literal (`|`) or folded (`>`) block scalar.
+   *
+   * @param header The block scalar header, e.g. `|`, `>-` or `|+2`.
+   * @param line The line of the header.
+   * @param parent The indentation of the parent node.
+   * @param column The column of the header, starting at 0.
+   * @returns The block scalar string.
+   */
+  private literal(
+    header: string,
+    line: Line,
+    parent: number,
+    column: number
+  ): string {
+    const match = /^([|>])(?:([+-])([1-9])?|([1-9])([+-])?)?$/.exec(header);
+
+    if (!match) throw this.error('Invalid block scalar header', line, column);
+
+    const folded = match[1] === '>';
+    const chomping = match[2] || match[5] || '';
+    const explicit = match[3] || match[4];
+
+    let indent = explicit ? Math.max(parent, 0) + Number(explicit) : undefined;
+    const lines: Array<string> = [];
+
+    while (this.index < this.lines.length) {
+      const next = this.lines[this.index];
+      const blank = next.text.trim() === '';
+
+      if (!blank) {
+        if (next.indent <= parent) break;
+        if (indent === undefined) indent = next.indent;
+        if (next.indent < indent) break;
+      }
+
+      lines.push(blank ? '' : ' '.repeat(next.indent - indent) + next.text);
+      this.index++;
+    }
+
+    let trailing = 0;
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+      trailing++;
+    }
+
+    let body = '';
+
+    if (!folded) body = lines.join('\n');
+    else {
+      let breaks = 0;
+      let normal = false;
+
+      lines.forEach((text) => {
+        if (text === '') return breaks++;
+
+        const more = /^\s/.test(text);
+
+        if (body === '') body += '\n'.repeat(breaks);
+        else if (normal && !more)
+          body += breaks > 0 ? '\n'.repeat(breaks) : ' ';
+        else body += '\n'.repeat(breaks + 1);
+
+        body += text;
+        normal = !more;
+        breaks = 0;
+      });
+    }
+
+    if (chomping === '-') return body;
+    if (chomping === '+') return body + '\n'.repeat(trailing + (body ? 1 : 0));
+    return body ? body + '\n' : '';
+  }
+
+  /**
+   * Parses a quoted string.
+   *
+   * @param text The text containing the string.
+   * @param start The index of the opening quote.
+   * @param line The line of the string.
+   * @param column The column of the text, starting at 0.
+   * @returns The string value and the index after the closing quote.
+   */
+  private quoted(
+    text: string,
+    start: number,
+    line: Line,
+    column = line.indent
+  ): { value: string; end: number } {
+    const quote = text[start];
+    let value = '';
+
+    for (let i = start + 1; i < text.length; i++) {
+      const char = text[i];
+
+      if (quote === "'") {
+        if (char !== "'") value += char;
+        else if (text[i + 1] === "'") value += text[++i];
+        else return { value, end: i + 1 };
+        continue;
+      }
+
+      if (char === '"') return { value, end: i + 1 };
+
+      if (char !== '\\') {
+        value += char;
+        continue;
+      }
+
+      const escape = text[++i];
+
+      if (ESCAPES[escape] !== undefined) {
+        value += ESCAPES[escape];
+      } else if (HEX_ESCAPES[escape]) {
+        const hex = text.slice(i + 1, i + 1 + HEX_ESCAPES[escape]);
+
+        if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== HEX_ESCAPES[escape]) {
+          throw this.error('Invalid escape sequence', line, column + i - 1);
+        }
+
+        value += String.fromCodePoint(parseInt(hex, 16));
+        i += hex.length;
+      } else {
+        throw this.error('Invalid escape sequence', line, column + i - 1);
+      }
+    }
+
+    throw this.error('Unterminated string', line, column + start);
+  }
+
+  /**
+   * Parses a flow collection, which can span multiple lines.
+   *
+   * @param text The text starting with `[` or `{`.
+   * @param line The line of the collection.
+   * @param column The column of the collection, starting at 0.
+   * @returns The parsed array or object.
+   */
+  private flow(text: string, line: Line, column: number): unknown {
+    // Positions of each joined line, used to report errors
+    const starts = [{ offset: 0, line, column }];
+    let source = text;
+
+    while (!this.balanced(source)) {
+      const next = this.lines[this.index];
+      if (!next) throw this.error('Unterminated flow collection', line, column);
+
+      starts.push({
+        offset: source.length + 1,
+        line: next,
+        column: next.indent,
+      });
+      source += '\n' + this.content(next);
+      this.index++;
+    }
+
+    const fail = (message: string, offset: number): ParseError => {
+      const start = starts.filter((start) => start.offset <= offset).pop();
+      return this.error(
+        message,
+        start.line,
+        start.column + offset - start.offset
+      );
+    };
+
+    let i = 0;
+
+    const space = () => {
+      while (i < source.length && /\s/.test(source[i])) i++;
+    };
+
+    const scalar = (key: boolean): unknown => {
+      if (source[i] === '"' || source[i] === "'") {
+        const start = starts.filter((start) => start.offset <= i).pop();
+        const quoted = this.quoted(
+          source.slice(start.offset),
+          i - start.offset,
+          start.line,
+          start.column
+        );
+
+        i = start.offset + quoted.end;
+        return quoted.value;
+      }
+
+      const begin = i;
+      const end = key ? /[,[\]{}]|:(?=[\s,[\]{}]|$)/g : /[,[\]{}]/g;
+      end.lastIndex = i;
+
+      const match = end.exec(source);
+      i = match ? match.index : source.length;
+
+      const value = source.slice(begin, i).trim();
+      if (/^[&*!]/.test(value)) {
+        throw fail('Anchors, aliases and tags are not supported', begin);
+      }
+
+      return key ? value : resolve(value);
+    };
+
+    const node = (): unknown => {
+      space();
+
+      if (source[i] === '[') {
+        const result: Array<unknown> = [];
+        i++;
+
+        for (space(); source[i] !== ']'; space()) {
+          result.push(node());
+          space();
+
+          if (source[i] === ',') i++;
+          else if (source[i] !== ']') throw fail('Expected "," or "]"', i);
+        }
+
+        i++;
+        return result;
+      }
+
+      if (source[i] === '{') {
+        const result: Record<string, unknown> = {};
+        i++;
+
+        for (space(); source[i] !== '}'; space()) {
+          const offset = i;
+          const key = String(scalar(true));
+
+          space();
+          if (source[i] !== ':') throw fail('Expected ":"', i);
+          i++;
+
+          if (Object.prototype.hasOwnProperty.call(result, key)) {
+            throw fail(`Duplicate key "${key}"`, offset);
+          }
+
+          space();
+          result[key] = /[,}]/.test(source[i]) ? null : node();
+          space();
+
+          if (source[i] === ',') i++;
+          else if (source[i] !== '}') throw fail('Expected "," or "}"', i);
+        }
+
+        i++;
+        return result;
+      }
+
+      if (i >= source.length || /[,\]}]/.test(source[i])) {
+        throw fail('Expected a value', i);
+      }
+
+      return scalar(false);
+    };
+
+    const value = node();
+    space();
+
+    if (i < source.length)
+      throw fail('Unexpected content after flow collection', i);
+
+    return value;
+  }
+
+  /**
+   * Checks if all brackets of a flow collection are closed.
+   *
+   * @param source The flow collection text.
+   * @returns `true` if the brackets are balanced, otherwise `false`.
+   */
+  private balanced(source: string): boolean {
+    let depth = 0;
+    let quote: string;
+
+    for (let i = 0; i < source.length; i++) {
+      const char = source[i];
+
+      if (quote) {
+        if (quote === '"' && char === '\\') i++;
+        else if (char === quote) quote = undefined;
+      } else if (char === '"' || char === "'") quote = char;
+      else if (char === '[' || char === '{') depth++;
+      else if (char === ']' || char === '}') depth--;
+    }
+
+    return depth <= 0;
+  }
+}
+
+/**
+ * Parses a YAML document.
+ *
+ * - Supports block mappings and sequences, flow collections (`[a, b]`, `{ a: 1 }`) and comments.
+ * - Plain scalars are resolved to `null`, booleans, numbers or strings using the YAML 1.2 core schema.
+ * - Supports single and double-quoted strings and literal (`|`) and folded (`>`) block scalars.
+ * - Anchors, aliases, tags and multiple documents are not supported.
+ *
+ * @param source The YAML source.
+ * @returns The parsed value, `null` for empty documents.
+ * @throws `ParseError` with the line and column of the error if the document is invalid.
+ */
+export function parse(source: string): unknown {
+  return new Parser(source).parse();
+}
@@ -0,0 +1,248 @@
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parse, run } from '../src/cli';
+import { ConfigError } from '../src/index';
+
+describe('cli', () => {
+  describe('parse', () => {
+    test('should parse the command and options', () => {
+      expect(
+        parse(['print', '--class', 'config.js', '--format=json', '--force'])
+      ).toEqual({
+        command: 'print',
+        class: 'config.js',
+        format: 'json',
+        force: true,
+      });
+
+      expect(parse(['root'])).toEqual({
+        command: 'root',
+        format: 'text',
+        force: false,
+      });
+    });
+
+    test('should return no command for --help', () => {
+      expect(parse(['print', '--help']).command).toBeUndefined();
+    });
+
+    test('should throw ConfigError for invalid arguments', () => {
+      expect(() => parse(['show'])).toThrow(ConfigError);
+      expect(() => parse(['show'])).toThrow('Unknown command: show');
+      expect(() => parse(['root', '--verbose'])).toThrow(
+        'Unknown option: --verbose'
+      );
+      expect(() => parse(['root', 'which'])).toThrow(
+        'Unexpected argument: which'
+      );
+      expect(() => parse(['print', '--class'])).toThrow(
+        'Missing value for --class'
+      );
+      expect(() => parse(['print', '--format', 'yaml'])).toThrow(
+        'Invalid format: yaml'
+      );
+    });
+  });
+
+  describe('run', () => {
+    const stdout = jest.spyOn(process.stdout, 'write');
+    const stderr = jest.spyOn(process.stderr, 'write');
+    const index = join(__dirname, '../src/index');
+    let root: string;
+    let module: string;
+
+    // Writes a module exporting a config class with the given body
+    const write = (body: string) => {
+      module = join(root, `config.${Math.random().toString(36).slice(2)}.js`);
+
+      fs.writeFileSync(
+        module,
+        `const { Config } = require(${JSON.stringify(index)});
+        module.exports = class extends Config {
+          static root = ${JSON.stringify(root)};
+          ${body}
+        };`
+      );
+    };
+
+    const output = (spy: jest.SpyInstance) =>
+      spy.mock.calls.map(([text]) => text).join('');
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(join(tmpdir(), 'megaorm-cli-'));
+      stdout.mockImplementation(() => true);
+      stderr.mockImplementation(() => true);
+    });
+
+    afterEach(() => {
+      stdout.mockReset();
+      stderr.mockReset();
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    afterAll(() => {
+      stdout.mockRestore();
+      stderr.mockRestore();
+    });
+
+    test('should print the config with secrets redacted', async () => {
+      write(`static file = 'db.json';
+        static secrets = ['db.password'];`);
+      fs.writeFileSync(
+        join(root, 'db.json'),
+        '{"db": {"host": "localhost", "password": "hunter2"}}'
+      );
+
+      await expect(run(['print', '--class', module])).resolves.toBe(0);
+      expect(output(stdout)).toContain("host: 'localhost'");
+      expect(output(stdout)).not.toContain('hunter2');
+
+      stdout.mockClear();
+
+      await expect(
+        run(['print', '--class', module, '--format', 'json'])
+      ).resolves.toBe(0);
+
+      expect(JSON.parse(output(stdout))).toEqual({
+        db: { host: 'localhost', password: '[REDACTED]' },
+      });
+    });
+
+    test('should exit with 1 if the config is invalid', async () => {
+      fs.writeFileSync(join(root, 'app.json'), '{"port": "http"}');
+      write(`static file = 'app.json';
+        static {
+          this.register(function checkPort(config) {
+            if (typeof config.port !== 'number') throw new Error('Invalid port');
+            return config;
+          });
+        }`);
+
+      await expect(run(['validate', '--class', module])).resolves.toBe(1);
+      expect(output(stderr)).toBe(
+        'Error: Validator "checkPort" failed: Invalid port\n'
+      );
+    });
+
+    test('should report errors as JSON', async () => {
+      write(`static file = 'missing.json';`);
+
+      await expect(
+        run(['validate', '--class', module, '--format', 'json'])
+      ).resolves.toBe(1);
+
+      expect(JSON.parse(output(stdout))).toEqual({
+        error: expect.stringContaining('missing.json'),
+      });
+    });
+
+    test('should validate the config', async () => {
+      write(`static file = 'app.json';`);
+      fs.writeFileSync(join(root, 'app.json'), '{"port": 80}');
+
+      await expect(
+        run(['validate', '--class', module, '--format', 'json'])
+      ).resolves.toBe(0);
+
+      expect(JSON.parse(output(stdout))).toEqual({
+        valid: true,
+        file: join(root, 'app.json'),
+      });
+    });
+
+    test('should run the validators on the default config if the file is missing', async () => {
+      write(`static file = 'absent.json';
+        static default = { port: 'nope' };
+        static {
+          this.register(function checkPort(config) {
+            if (typeof config.port !== 'number') throw new Error('Invalid port');
+            return config;
+          });
+        }`);
+
+      await expect(run(['validate', '--class', module])).resolves.toBe(1);
+      expect(output(stderr)).toBe(
+        'Error: Validator "checkPort" failed: Invalid port\n'
+      );
+
+      write(`static file = 'absent.json';
+        static default = { port: 80 };`);
+
+      await expect(run(['validate', '--class', module])).resolves.toBe(0);
+      expect(output(stdout)).toBe(
+        `Valid default config, no config file found at: ${join(
+          root,
+          'absent.json'
+        )}\n`
+      );
+    });
+
+    test('should print the root and the config file', async () => {
+      write(`static file = 'app.json';`);
+
+      await expect(run(['root', '--class', module])).resolves.toBe(0);
+      await expect(run(['which', '--class', module])).resolves.toBe(0);
+
+      expect(output(stdout)).toBe(`${root}\n${join(root, 'app.json')}\n`);
+    });
+
+    test('should write a starter config', async () => {
+      write(`static file = 'app.json';
+        static default = { port: 80 };`);
+
+      await expect(run(['init', '--class', module])).resolves.toBe(0);
+      expect(output(stdout)).toBe(`Created ${join(root, 'app.json')}\n`);
+      expect(
+        JSON.parse(fs.readFileSync(join(root, 'app.json'), 'utf-8'))
+      ).toEqual({ port: 80 });
+
+      await expect(run(['init', '--class', module])).resolves.toBe(1);
+      await expect(run(['init', '--class', module, '--force'])).resolves.toBe(
+        0
+      );
+    });
+
+    test('should validate and locate configs loaded from sources', async () => {
+      write(`static sources = [this.objectSource({ port: 80 })];`);
+
+      await expect(run(['validate', '--class', module])).resolves.toBe(0);
+      await expect(run(['which', '--class', module])).resolves.toBe(0);
+
+      expect(output(stdout)).toBe(
+        'Valid config\nNo config file, the config is loaded from sources\n'
+      );
+
+      stdout.mockClear();
+
+      await expect(
+        run(['which', '--class', module, '--format', 'json'])
+      ).resolves.toBe(0);
+
+      expect(JSON.parse(output(stdout))).toEqual({ file: null });
+    });
+
+    test('should exit with 2 on usage errors', async () => {
+      await expect(run(['print'])).resolves.toBe(2);
+      expect(output(stderr)).toContain('The print command requires --class');
+
+      await expect(run(['show'])).resolves.toBe(2);
+      expect(output(stderr)).toContain('Usage: megaorm-config');
+    });
+
+    test('should reject modules without a config class', async () => {
+      module = join(root, 'empty.js');
+      fs.writeFileSync(module, 'module.exports = { a: 1 };');
+
+      await expect(run(['which', '--class', module])).resolves.toBe(1);
+      expect(output(stderr)).toBe(
+        `Error: No Config class exported by: ${module}\n`
+      );
+    });
+
+    test('should print the help', async () => {
+      await expect(run(['--help'])).resolves.toBe(0);
+      expect(output(stdout)).toContain('Usage: megaorm-config <command>');
+    });
+  });
+});
@@ -1,6 +1,7 @@
 jest.mock('fs', () => ({
   ...jest.requireActual('fs'), // Keep the actual `fs` methods
   existsSync: jest.fn(), // Mock `existsSync`
+  watch: jest.fn(), // Mock `watch`
   promises: {
     ...jest.requireActual('fs').promises,
     mkdir: jest.fn(),
@@ -12,7 +13,10 @@ jest.mock('fs', () => ({
 
 import path, { join } from 'path';
 import { Config, ConfigError } from '../src/index';
+import * as utils from '../src/utils';
 import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { inspect } from 'util';
 
 describe('Config', () => {
   describe('resolveSync', () => {
@@ -21,7 +25,12 @@ describe('Config', () => {
 
     afterEach(() => {
       jest.clearAllMocks();
+      existSync.mockReset();
       (Config as any).root = undefined; // Reset cache
+      (Config as any).strategies = undefined;
+      (Config as any).markers = undefined;
+      (Config as any).depth = undefined;
+      delete process.env.MEGA_ROOT;
     });
 
     test('should return the root directory if node_modules is found', () => {
@@ -45,6 +54,100 @@ describe('Config', () => {
       expect(() => Config.resolveSync()).toThrow(ConfigError);
       expect(existSync).toHaveBeenCalledTimes(2);
     });
+
+    test('should resolve the root again if the working directory changes', () => {
+      existSync.mockImplementation((path) =>
+        ['/a/node_modules', '/b/node_modules'].includes(path as string)
+      );
+
+      cwd.mockReturnValue('/a/src');
+      expect(Config.resolveSync()).toBe('/a');
+
+      cwd.mockReturnValue('/b/src');
+      expect(Config.resolveSync()).toBe('/b');
+    });
+
+    test('should keep a root set explicitly', () => {
+      (Config as any).root = '/explicit';
+      cwd.mockReturnValue('/other');
+
+      expect(Config.resolveSync()).toBe('/explicit');
+      expect(existSync).not.toHaveBeenCalled();
+    });
+
+    test('should find the closest directory containing a custom marker', () => {
+      (Config as any).markers = ['package.json', '.git'];
+      cwd.mockReturnValue('/repo/dist/app');
+      existSync.mockImplementation((path) => path === '/repo/dist/.git');
+
+      expect(Config.resolveSync()).toBe('/repo/dist');
+      expect(existSync).toHaveBeenCalledWith('/repo/dist/app/package.json');
+      expect(existSync).toHaveBeenCalledWith('/repo/dist/app/.git');
+    });
+
+    test('should not search above the max depth', () => {
+      (Config as any).depth = 1;
+      cwd.mockReturnValue('/repo/packages/api/src');
+      existSync.mockImplementation((path) => path === '/repo/node_modules');
+
+      expect(() => Config.resolveSync()).toThrow('Could not find project root');
+      expect(existSync).toHaveBeenCalledTimes(2);
+    });
+
+    test('should use the MEGA_ROOT environment variable first', () => {
+      process.env.MEGA_ROOT = '/deploy/app';
+      cwd.mockReturnValue('/tmp');
+      existSync.mockImplementation((path) => path === '/deploy/app');
+
+      expect(Config.resolveSync()).toBe('/deploy/app');
+    });
+
+    test('should throw ConfigError if MEGA_ROOT does not exist', () => {
+      process.env.MEGA_ROOT = '/missing';
+      existSync.mockReturnValue(false);
+
+      expect(() => Config.resolveSync()).toThrow(
+        new ConfigError('MEGA_ROOT directory does not exist: /missing')
+      );
+    });
+
+    test('should find the workspace root of a monorepo', () => {
+      const dir = fs.mkdtempSync(join(tmpdir(), 'megaorm-'));
+      const app = join(dir, 'packages', 'app');
+
+      try {
+        fs.mkdirSync(app, { recursive: true });
+        fs.writeFileSync(
+          join(dir, 'package.json'),
+          '{"workspaces": ["packages/*"]}'
+        );
+        fs.writeFileSync(join(app, 'package.json'), '{"name": "app"}');
+
+        (Config as any).strategies = ['workspace', 'markers'];
+        cwd.mockReturnValue(app);
+        existSync.mockReturnValue(true); // Each package has node_modules
+
+        expect(Config.resolveSync()).toBe(dir);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    test('should use custom strategies', () => {
+      const strategy = jest.fn().mockReturnValue('/custom');
+      (Config as any).strategies = [() => undefined, strategy];
+      cwd.mockReturnValue('/cwd');
+
+      expect(Config.resolveSync()).toBe('/custom');
+      expect(strategy).toHaveBeenCalledWith('/cwd');
+    });
+
+    test('should throw ConfigError for invalid strategies', () => {
+      (Config as any).strategies = ['unknown'];
+      expect(() => Config.resolveSync()).toThrow(
+        new ConfigError('Invalid root strategy: unknown')
+      );
+    });
   });
 
   describe('resolve', () => {
@@ -54,6 +157,10 @@ describe('Config', () => {
     afterEach(() => {
       jest.clearAllMocks();
       (Config as any).root = undefined; // Reset cache
+      (Config as any).strategies = undefined;
+      (Config as any).markers = undefined;
+      (Config as any).depth = undefined;
+      delete process.env.MEGA_ROOT;
     });
 
     test('should resolve the root directory if node_modules is found', async () => {
@@ -79,6 +186,47 @@ describe('Config', () => {
       await expect(Config.resolve()).rejects.toThrow(ConfigError);
       expect(access).toHaveBeenCalledTimes(2);
     });
+
+    test('should resolve the root again if the working directory changes', async () => {
+      access
+        .mockRejectedValueOnce(new Error()) // No /a/src/node_modules
+        .mockResolvedValueOnce() // /a/node_modules found
+        .mockRejectedValueOnce(new Error()) // No /b/src/node_modules
+        .mockResolvedValueOnce(); // /b/node_modules found
+
+      cwd.mockReturnValue('/a/src');
+      await expect(Config.resolve()).resolves.toBe('/a');
+
+      cwd.mockReturnValue('/b/src');
+      await expect(Config.resolve()).resolves.toBe('/b');
+    });
+
+    test('should use the MEGA_ROOT environment variable first', async () => {
+      process.env.MEGA_ROOT = '/deploy/app';
+      access.mockResolvedValueOnce();
+
+      await expect(Config.resolve()).resolves.toBe('/deploy/app');
+      expect(access).toHaveBeenCalledWith('/deploy/app');
+    });
+
+    test('should find the workspace root of a monorepo', async () => {
+      (Config as any).strategies = ['workspace'];
+      cwd.mockReturnValue('/repo/packages/app');
+
+      (fs.promises.readFile as jest.Mock)
+        .mockResolvedValueOnce('{"name": "app"}')
+        .mockRejectedValueOnce(new Error('ENOENT'))
+        .mockResolvedValueOnce('{"workspaces": {"packages": ["packages/*"]}}');
+
+      await expect(Config.resolve()).resolves.toBe('/repo');
+    });
+
+    test('should reject with ConfigError for invalid strategies', async () => {
+      (Config as any).strategies = 'markers';
+      await expect(Config.resolve()).rejects.toThrow(
+        new ConfigError('Invalid root strategies: markers')
+      );
+    });
   });
 
   describe('exist', () => {
@@ -317,79 +465,217 @@ describe('Config', () => {
       const config = { initial: true };
       expect(() => Config.validate(config)).toThrow('Validation failed');
     });
+
+    test('should name the failing validator in the error', () => {
+      Config.register(function checkName() {
+        throw new Error('Invalid name');
+      });
+
+      expect(() => Config.validate({})).toThrow(
+        new ConfigError('Validator "checkName" failed: Invalid name')
+      );
+    });
+
+    test('should use the validator position if it has no name', () => {
+      Config.register((config) => config);
+
+      // Functions inside array literals are not named after a variable
+      Config.register(
+        [
+          () => {
+            throw new Error('Invalid name');
+          },
+        ][0]
+      );
+
+      expect(() => Config.validate({})).toThrow(
+        new ConfigError('Validator #2 failed: Invalid name')
+      );
+    });
+
+    test('should await async validators in order', async () => {
+      const order: Array<string> = [];
+
+      Config.register(async (config) => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        order.push('async');
+        return { ...config, async: true };
+      });
+
+      Config.register((config) => {
+        order.push('sync');
+        return { ...config, sync: true };
+      });
+
+      const result = Config.validate({ initial: true });
+
+      expect(result).toBeInstanceOf(Promise);
+      await expect(result).resolves.toEqual({
+        initial: true,
+        async: true,
+        sync: true,
+      });
+      expect(order).toEqual(['async', 'sync']);
+    });
+
+    test('should reject with ConfigError naming the failing async validator', async () => {
+      Config.register(async function checkHost() {
+        throw new Error('Host not found');
+      });
+
+      await expect(Config.validate({})).rejects.toThrow(
+        new ConfigError('Validator "checkHost" failed: Host not found')
+      );
+    });
   });
 
-  describe('loadJSON', () => {
+  describe('schema', () => {
     beforeEach(() => {
-      // Reset default config and mock functions before each test
-      (Config as any).default = undefined;
-      jest.clearAllMocks();
+      (Config as any).validators = [];
+    });
 
-      // Removes validators
-      (Config as any).validators = undefined;
+    test('should register the schema as a validator', () => {
+      Config.schema({ name: { type: 'string', default: 'main' } });
+
+      expect((Config as any).validators).toHaveLength(1);
+      expect(Config.validate({})).toEqual({ name: 'main' });
     });
 
-    test('should load JSON file successfully', async () => {
-      const mockPath = 'config.json';
-      const mockConfig = { key: 'value' };
+    test('should throw ConfigError listing every violation', () => {
+      Config.schema({
+        paths: {
+          type: 'object',
+          properties: { models: { type: 'string' } },
+        },
+        port: { type: 'integer', min: 1 },
+      });
 
-      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce(
-        JSON.stringify(mockConfig)
+      expect(() => Config.validate({ paths: { models: 1 }, port: 0 })).toThrow(
+        new ConfigError(
+          'Validator "schemaValidator" failed: Invalid config:\n' +
+            '- paths.models: expected string, got number\n' +
+            '- port: expected at least 1, got 0'
+        )
       );
+    });
 
-      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+    test('should throw ConfigError if the config is not an object', () => {
+      Config.schema({});
 
-      const config = await Config.loadJSON(mockPath);
+      expect(() => Config.validate('config' as any)).toThrow(
+        'Invalid config: expected object, got string'
+      );
+    });
 
-      expect(fs.promises.readFile).toHaveBeenCalledWith(mockPath, 'utf-8');
-      expect(config).toEqual(mockConfig);
+    test('should run in order with function validators', () => {
+      Config.register((config) => ({ ...config, port: Number(config.port) }));
+      Config.schema({ port: { type: 'integer' } });
+
+      expect(Config.validate({ port: '3306' })).toEqual({ port: 3306 });
     });
 
-    test('should resolve with default config if file does not exist', async () => {
-      const mockPath = 'config.json';
-      const defaultConfig = { defaultKey: 'defaultValue' };
-      (Config as any).default = defaultConfig;
+    test('should throw ConfigError if the schema is not an object', () => {
+      expect(() => Config.schema('schema' as any)).toThrow(
+        'Invalid schema: schema'
+      );
+    });
+  });
 
-      Config.exist = jest
-        .fn()
-        .mockRejectedValueOnce(new Error('File does not exist'));
+  describe('overlay', () => {
+    const env = process.env;
 
-      const config = await Config.loadJSON(mockPath);
+    beforeEach(() => {
+      process.env = { ...env };
+      (Config as any).prefix = 'MEGA_';
+    });
 
-      expect(config).toEqual(defaultConfig);
+    afterEach(() => {
+      process.env = env;
+      (Config as any).prefix = undefined;
     });
 
-    test('should reject with ConfigError if path is invalid', async () => {
-      await expect(Config.loadJSON(123 as any)).rejects.toThrow(ConfigError);
+    test('should map prefixed variables into nested keys', () => {
+      process.env.MEGA_PATHS__MODELS = 'src/models';
+      process.env.MEGA_DEBUG = 'true';
+
+      const config = Config.overlay({ paths: { models: 'models' } });
+
+      expect(config).toEqual({ paths: { models: 'src/models' }, debug: true });
     });
 
-    test('should reject with ConfigError if the file extension is not .json', async () => {
-      await expect(Config.loadJSON('config.txt')).rejects.toThrow(ConfigError);
+    test('should match existing keys case-insensitively', () => {
+      process.env.MEGA_TYPESCRIPT__DIST = 'build';
+
+      const config = Config.overlay({ TypeScript: { dist: 'dist' } });
+
+      expect(config).toEqual({ TypeScript: { dist: 'build' } });
     });
 
-    test('should reject with ConfigError if reading the JSON file fails', async () => {
-      const mockPath = 'config.json';
-      (fs.promises.readFile as jest.Mock).mockRejectedValueOnce(
-        new Error('Error reading file')
+    test('should parse JSON values and keep other values as strings', () => {
+      process.env.MEGA_PORT = '3306';
+      process.env.MEGA_HOSTS = '["a", "b"]';
+      process.env.MEGA_NAME = 'main';
+
+      expect(Config.overlay({})).toEqual({
+        port: 3306,
+        hosts: ['a', 'b'],
+        name: 'main',
+      });
+    });
+
+    test('should create missing parent keys', () => {
+      process.env.MEGA_PATHS__MODELS = 'src/models';
+
+      expect(Config.overlay({ db: null })).toEqual({
+        db: null,
+        paths: { models: 'src/models' },
+      });
+    });
+
+    test('should throw ConfigError instead of replacing instances, arrays or scalars', () => {
+      class Cluster {
+        public port = 3306;
+      }
+
+      const cluster = new Cluster();
+
+      process.env.MEGA_CLUSTER__PORT = '5432';
+      expect(() => Config.overlay({ cluster })).toThrow(
+        new ConfigError(
+          'Cannot apply MEGA_CLUSTER__PORT: cluster is not a plain object'
+        )
       );
+      expect(cluster.port).toBe(3306);
+      delete process.env.MEGA_CLUSTER__PORT;
 
-      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+      process.env.MEGA_HOSTS__0 = 'x';
+      expect(() => Config.overlay({ hosts: ['a'] })).toThrow(
+        'Cannot apply MEGA_HOSTS__0: hosts is not a plain object'
+      );
+      delete process.env.MEGA_HOSTS__0;
 
-      await expect(Config.loadJSON(mockPath)).rejects.toThrow(ConfigError);
+      process.env.MEGA_PATHS__MODELS = 'src/models';
+      expect(() => Config.overlay({ paths: 'paths' })).toThrow(
+        'Cannot apply MEGA_PATHS__MODELS: paths is not a plain object'
+      );
     });
 
-    test('should reject with ConfigError if no default config found', async () => {
-      const mockPath = 'config.json';
+    test('should ignore variables without a key', () => {
+      process.env.MEGA_ = 'value';
+      process.env.MEGA_PATHS__ = 'value';
 
-      Config.exist = jest
-        .fn()
-        .mockRejectedValueOnce(new Error('File does not exist'));
+      expect(Config.overlay({})).toEqual({});
+    });
 
-      await expect(Config.loadJSON(mockPath)).rejects.toThrow(ConfigError);
+    test('should do nothing if no prefix is set', () => {
+      (Config as any).prefix = undefined;
+      process.env.MEGA_DEBUG = 'true';
+
+      expect(Config.overlay({})).toEqual({});
     });
   });
 
-  describe('loadJS', () => {
+  describe('loadJSON', () => {
     beforeEach(() => {
       // Reset default config and mock functions before each test
       (Config as any).default = undefined;
@@ -399,22 +685,72 @@ describe('Config', () => {
       (Config as any).validators = undefined;
     });
 
-    test('should load JS file successfully', async () => {
-      const mockPath = 'config.js';
+    test('should load JSON file successfully', async () => {
+      const mockPath = 'config.json';
       const mockConfig = { key: 'value' };
 
-      // Use jest.mock to simulate the module loading for the mock path
-      jest.doMock(mockPath, () => mockConfig, { virtual: true });
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce(
+        JSON.stringify(mockConfig)
+      );
 
       Config.exist = jest.fn().mockResolvedValueOnce(undefined);
 
-      const config = await Config.loadJS(mockPath);
+      const config = await Config.loadJSON(mockPath);
 
+      expect(fs.promises.readFile).toHaveBeenCalledWith(mockPath, 'utf-8');
       expect(config).toEqual(mockConfig);
     });
 
-    test('should resolve with default config if JS file does not exist', async () => {
-      const mockPath = 'config.js';
+    test('should load JSONC and JSON5 files successfully', async () => {
+      const content = "{\n  // comment\n  key: 'value',\n}";
+
+      (fs.promises.readFile as jest.Mock)
+        .mockResolvedValueOnce(content)
+        .mockResolvedValueOnce(content);
+
+      Config.exist = jest.fn().mockResolvedValue(undefined);
+
+      await expect(Config.loadJSON('config.jsonc')).resolves.toEqual({
+        key: 'value',
+      });
+
+      await expect(Config.loadJSON('config.json5')).resolves.toEqual({
+        key: 'value',
+      });
+    });
+
+    test('should reject with ConfigError if the file is not an object', async () => {
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce('[1, 2]');
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadJSON('config.json')).rejects.toThrow(
+        new ConfigError('Invalid config in config.json: 1,2')
+      );
+    });
+
+    test('should reject with ConfigError including the line, column and code frame', async () => {
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce(
+        '{\n  "key": "value",\n}'
+      );
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadJSON('config.json')).rejects.toThrow(
+        new ConfigError(
+          [
+            'Invalid JSON in config.json at line 2, column 17: Trailing commas are not allowed',
+            '',
+            '  1 | {',
+            '> 2 |   "key": "value",',
+            '    |                 ^',
+            '  3 | }',
+          ].join('\n')
+        )
+      );
+    });
+
+    test('should resolve with default config if file does not exist', async () => {
+      const mockPath = 'config.json';
       const defaultConfig = { defaultKey: 'defaultValue' };
       (Config as any).default = defaultConfig;
 
@@ -422,89 +758,2320 @@ describe('Config', () => {
         .fn()
         .mockRejectedValueOnce(new Error('File does not exist'));
 
-      const config = await Config.loadJS(mockPath);
+      const config = await Config.loadJSON(mockPath);
 
       expect(config).toEqual(defaultConfig);
     });
 
-    test('should reject with ConfigError if path is invalid', async () => {
-      await expect(Config.loadJS(123 as any)).rejects.toThrow(ConfigError);
-    });
-
-    test('should reject with ConfigError if the file extension is not .js', async () => {
-      await expect(Config.loadJS('config.json')).rejects.toThrow(ConfigError);
-    });
+    test('should apply the environment overlay before validation', async () => {
+      const env = process.env;
+      process.env = { ...env, MEGA_KEY: 'env' };
+      (Config as any).prefix = 'MEGA_';
 
-    test('should reject with ConfigError if requiring the JS file fails', async () => {
-      const mockPath = 'my/config.js';
+      const validator = jest.fn((config) => config);
+      Config.register(validator);
 
-      // Simulate throwing an error while requiring the file
-      jest.doMock(
-        mockPath,
-        () => {
-          throw new Error('Error requiring file');
-        },
-        { virtual: true }
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce(
+        JSON.stringify({ key: 'value' })
       );
 
       Config.exist = jest.fn().mockResolvedValueOnce(undefined);
 
-      await expect(Config.loadJS(mockPath)).rejects.toThrow(ConfigError);
+      const config = await Config.loadJSON('config.json');
+
+      expect(validator).toHaveBeenCalledWith({ key: 'env' });
+      expect(config).toEqual({ key: 'env' });
+
+      process.env = env;
+      (Config as any).prefix = undefined;
     });
 
-    test('should reject with ConfigError if no default config found', async () => {
-      const mockPath = 'config.js';
+    test('should apply the environment overlay to the default config', async () => {
+      const env = process.env;
+      process.env = { ...env, MEGA_KEY: 'env' };
+      (Config as any).prefix = 'MEGA_';
+
+      const defaultConfig = { key: 'value' };
+      (Config as any).default = defaultConfig;
 
       Config.exist = jest
         .fn()
         .mockRejectedValueOnce(new Error('File does not exist'));
 
-      expect(Config.loadJS(mockPath)).rejects.toThrow(ConfigError);
-    });
-  });
+      const config = await Config.loadJSON('config.json');
 
-  describe('reload', () => {
-    beforeEach(() => {
-      jest.clearAllMocks();
-      (Config as any).loaded = undefined; // Reset loaded file path
+      expect(config).toEqual({ key: 'env' });
+      expect(defaultConfig).toEqual({ key: 'value' }); // Not mutated
+
+      process.env = env;
+      (Config as any).prefix = undefined;
     });
 
-    test('should reload JS config successfully', async () => {
-      const mockPath = 'config.js';
-      const mockConfig = { key: 'value' };
-      (Config as any).loaded = mockPath;
+    test('should merge the environment file over the base file', async () => {
+      (Config as any).environment = 'production';
 
-      // Mocking the loadJS method using jest.fn()
-      Config.loadJS = jest.fn().mockResolvedValue(mockConfig);
+      (fs.existsSync as jest.Mock).mockImplementation(
+        (path) => path === 'config.production.json'
+      );
 
-      const config = await Config.reload<typeof mockConfig>();
+      (fs.promises.readFile as jest.Mock)
+        .mockResolvedValueOnce(JSON.stringify({ a: 1, b: { c: 2, d: 3 } }))
+        .mockResolvedValueOnce(JSON.stringify({ b: { c: 4 } }));
 
-      expect(config).toEqual(mockConfig);
-      expect(Config.loadJS).toHaveBeenCalledWith(mockPath);
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      const config = await Config.loadJSON('config.json');
+
+      expect(fs.promises.readFile).toHaveBeenCalledWith(
+        'config.production.json',
+        'utf-8'
+      );
+      expect(config).toEqual({ a: 1, b: { c: 4, d: 3 } });
+
+      (Config as any).environment = undefined;
+      (fs.existsSync as jest.Mock).mockReset();
     });
 
-    test('should reload JSON config successfully', async () => {
-      const mockPath = 'config.json';
-      const mockConfig = { key: 'value' };
-      (Config as any).loaded = mockPath;
+    test('should skip missing environment files', async () => {
+      (Config as any).environment = 'production';
+      (fs.existsSync as jest.Mock).mockReturnValue(false);
 
-      // Mocking the loadJSON method using jest.fn()
-      Config.loadJSON = jest.fn().mockResolvedValue(mockConfig);
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce(
+        JSON.stringify({ a: 1 })
+      );
 
-      const config = await Config.reload<typeof mockConfig>();
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
 
-      expect(config).toEqual(mockConfig);
-      expect(Config.loadJSON).toHaveBeenCalledWith(mockPath);
+      await expect(Config.loadJSON('config.json')).resolves.toEqual({ a: 1 });
+      expect(fs.existsSync).toHaveBeenCalledWith('config.production.json');
+      expect(fs.promises.readFile).toHaveBeenCalledTimes(1);
+
+      (Config as any).environment = undefined;
     });
 
-    test('should reject with ConfigError if no file is loaded', async () => {
-      (Config as any).loaded = undefined;
+    test('should use NODE_ENV if no environment is set', async () => {
+      const env = process.env;
+      process.env = { ...env, NODE_ENV: 'staging' };
+      (fs.existsSync as jest.Mock).mockReturnValue(false);
 
-      await expect(Config.reload()).rejects.toThrow(ConfigError);
-      await expect(Config.reload()).rejects.toThrow('Nothing to reload');
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce('{}');
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await Config.loadJSON('config.json');
+      expect(fs.existsSync).toHaveBeenCalledWith('config.staging.json');
+
+      process.env = env;
     });
 
-    test('should reject with ConfigError if file extension is unsupported', async () => {
+    test('should merge the config file over the default config in merge mode', async () => {
+      const defaultConfig = { paths: { models: 'models', seeders: 'seeders' } };
+      (Config as any).default = defaultConfig;
+      (Config as any).mode = 'merge';
+
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce(
+        JSON.stringify({ paths: { models: 'src/models' } })
+      );
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      const config = await Config.loadJSON('config.json');
+
+      expect(config).toEqual({
+        paths: { models: 'src/models', seeders: 'seeders' },
+      });
+
+      (Config as any).mode = undefined;
+    });
+
+    test('should replace or concat arrays based on the arrays option', async () => {
+      (Config as any).default = { plugins: ['core'] };
+      (Config as any).mode = 'merge';
+
+      (fs.promises.readFile as jest.Mock)
+        .mockResolvedValueOnce(JSON.stringify({ plugins: ['cache'] }))
+        .mockResolvedValueOnce(JSON.stringify({ plugins: ['cache'] }));
+
+      Config.exist = jest
+        .fn()
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadJSON('config.json')).resolves.toEqual({
+        plugins: ['cache'],
+      });
+
+      (Config as any).arrays = 'concat';
+
+      await expect(Config.loadJSON('config.json')).resolves.toEqual({
+        plugins: ['core', 'cache'],
+      });
+
+      (Config as any).mode = undefined;
+      (Config as any).arrays = undefined;
+    });
+
+    test('should never let validators mutate the default config', async () => {
+      const defaultConfig = { paths: { models: 'models' } };
+      (Config as any).default = defaultConfig;
+      (Config as any).mode = 'merge';
+
+      Config.register((config) => {
+        config.paths.models = 'changed';
+        config.paths.seeders = 'added';
+        return config;
+      });
+
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce('{}');
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadJSON('config.json')).resolves.toEqual({
+        paths: { models: 'changed', seeders: 'added' },
+      });
+
+      expect(defaultConfig).toEqual({ paths: { models: 'models' } });
+
+      (Config as any).mode = undefined;
+    });
+
+    test('should await async validators before caching the config', async () => {
+      Config.register(async (config) => ({ ...config, checked: true }));
+
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce('{}');
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadJSON('config.json')).resolves.toEqual({
+        checked: true,
+      });
+      expect((Config as any).config).toEqual({ checked: true });
+    });
+
+    test('should deep-freeze the validated config if freeze is enabled', async () => {
+      (Config as any).freeze = true;
+      Config.register((config) => {
+        config.paths.seeders = 'seeders'; // Validators can still modify the config
+        return config;
+      });
+
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce(
+        '{"paths": {"models": "models"}, "hosts": ["a"]}'
+      );
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      const config: any = await Config.loadJSON('config.json');
+      (Config as any).freeze = undefined;
+
+      expect(config).toEqual({
+        paths: { models: 'models', seeders: 'seeders' },
+        hosts: ['a'],
+      });
+      expect(Object.isFrozen(config)).toBe(true);
+      expect(Object.isFrozen(config.paths)).toBe(true);
+      expect(Object.isFrozen(config.hosts)).toBe(true);
+      expect(() => (config.paths.models = 'src/models')).toThrow(TypeError);
+      expect(() => config.hosts.push('b')).toThrow(TypeError);
+    });
+
+    test('should deep-freeze the default config if freeze is enabled', async () => {
+      (Config as any).freeze = true;
+      (Config as any).default = { paths: { models: 'models' } };
+
+      Config.exist = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('File does not exist'));
+
+      const config: any = await Config.loadJSON('config.json');
+      (Config as any).freeze = undefined;
+
+      expect(Object.isFrozen(config.paths)).toBe(true);
+      expect(Object.isFrozen((Config as any).default)).toBe(false);
+    });
+
+    test('should not freeze the config by default', async () => {
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce('{"a": {}}');
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      const config: any = await Config.loadJSON('config.json');
+
+      expect(Object.isFrozen(config)).toBe(false);
+      expect(Object.isFrozen(config.a)).toBe(false);
+    });
+
+    test('should load the property of package.json files', async () => {
+      (Config as any).property = 'megaorm';
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce(
+        '{"name": "app", "megaorm": {"key": "value"}}'
+      );
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      const config = await Config.loadJSON(join('root', 'package.json'));
+      (Config as any).property = undefined;
+
+      expect(config).toEqual({ key: 'value' });
+    });
+
+    test('should hide secrets when the config is printed or serialized', async () => {
+      (Config as any).secrets = ['*.password'];
+
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce(
+        '{"db": {"host": "localhost", "password": "hunter2"}}'
+      );
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      const config: any = await Config.loadJSON('config.json');
+      (Config as any).secrets = undefined;
+
+      expect(config.db.password).toBe('hunter2');
+      expect(JSON.stringify(config)).toBe(
+        '{"db":{"host":"localhost","password":"[REDACTED]"}}'
+      );
+      expect(inspect(config)).not.toContain('hunter2');
+    });
+
+    test('should hide secrets in validation errors', async () => {
+      (Config as any).secrets = ['*.password'];
+      Config.register(function checkPassword(config) {
+        throw new Error(`Weak password: ${config.db.password}`);
+      });
+
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce(
+        '{"db": {"password": "hunter2"}}'
+      );
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      const promise = Config.loadJSON('config.json');
+      await expect(promise).rejects.toThrow(
+        new ConfigError(
+          'Validator "checkPassword" failed: Weak password: [REDACTED]'
+        )
+      );
+      (Config as any).secrets = undefined;
+    });
+
+    test('should reject with ConfigError if an async validator fails', async () => {
+      Config.register(async function checkHost() {
+        throw new Error('Host not found');
+      });
+
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce('{}');
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadJSON('config.json')).rejects.toThrow(
+        new ConfigError('Validator "checkHost" failed: Host not found')
+      );
+    });
+
+    test('should reject with ConfigError if path is invalid', async () => {
+      await expect(Config.loadJSON(123 as any)).rejects.toThrow(ConfigError);
+    });
+
+    test('should reject with ConfigError if the file extension is not .json', async () => {
+      await expect(Config.loadJSON('config.txt')).rejects.toThrow(ConfigError);
+    });
+
+    test('should reject with ConfigError if reading the JSON file fails', async () => {
+      const mockPath = 'config.json';
+      (fs.promises.readFile as jest.Mock).mockRejectedValueOnce(
+        new Error('Error reading file')
+      );
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadJSON(mockPath)).rejects.toThrow(ConfigError);
+    });
+
+    test('should reject with ConfigError if no default config found', async () => {
+      const mockPath = 'config.json';
+
+      Config.exist = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('File does not exist'));
+
+      await expect(Config.loadJSON(mockPath)).rejects.toThrow(ConfigError);
+    });
+  });
+
+  describe('loadJS', () => {
+    beforeEach(() => {
+      // Reset default config and mock functions before each test
+      (Config as any).default = undefined;
+      jest.clearAllMocks();
+
+      // Removes validators
+      (Config as any).validators = undefined;
+    });
+
+    test('should load JS file successfully', async () => {
+      const mockPath = 'config.js';
+      const mockConfig = { key: 'value' };
+
+      // Use jest.mock to simulate the module loading for the mock path
+      jest.doMock(mockPath, () => mockConfig, { virtual: true });
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      const config = await Config.loadJS(mockPath);
+
+      expect(config).toEqual(mockConfig);
+    });
+
+    test('should merge the environment file over the base file', async () => {
+      (Config as any).environment = 'production';
+
+      jest.doMock('app.js', () => ({ a: 1, b: { c: 2 } }), { virtual: true });
+      jest.doMock('app.production.js', () => ({ b: { c: 3 } }), {
+        virtual: true,
+      });
+
+      (fs.existsSync as jest.Mock).mockImplementation(
+        (path) => path === 'app.production.js'
+      );
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      const config = await Config.loadJS('app.js');
+
+      expect(config).toEqual({ a: 1, b: { c: 3 } });
+
+      (Config as any).environment = undefined;
+      (fs.existsSync as jest.Mock).mockReset();
+    });
+
+    test('should load CJS file successfully', async () => {
+      jest.doMock('config.cjs', () => ({ key: 'cjs' }), { virtual: true });
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadJS('config.cjs')).resolves.toEqual({
+        key: 'cjs',
+      });
+    });
+
+    test('should load MJS file using import()', async () => {
+      const importModule = jest
+        .spyOn(utils, 'importModule')
+        .mockResolvedValueOnce(
+          Object.defineProperty(
+            { default: { key: 'mjs' } },
+            Symbol.toStringTag,
+            {
+              value: 'Module',
+            }
+          )
+        );
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadJS('/app/config.mjs')).resolves.toEqual({
+        key: 'mjs',
+      });
+      expect(importModule).toHaveBeenCalledWith('/app/config.mjs', false);
+
+      importModule.mockRestore();
+    });
+
+    test('should fall back to import() for ES modules with .js extension', async () => {
+      jest.doMock(
+        'esm.js',
+        () => {
+          throw Object.assign(new Error('require() of ES Module'), {
+            code: 'ERR_REQUIRE_ESM',
+          });
+        },
+        { virtual: true }
+      );
+
+      const importModule = jest
+        .spyOn(utils, 'importModule')
+        .mockResolvedValueOnce(
+          Object.defineProperty({ key: 'esm' }, Symbol.toStringTag, {
+            value: 'Module',
+          })
+        );
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadJS('esm.js')).resolves.toEqual({ key: 'esm' });
+      expect(importModule).toHaveBeenCalledWith('esm.js', false);
+
+      importModule.mockRestore();
+    });
+
+    test('should unwrap the default export of transpiled modules', async () => {
+      jest.doMock(
+        'transpiled.js',
+        () => ({ __esModule: true, default: { key: 'value' } }),
+        { virtual: true }
+      );
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadJS('transpiled.js')).resolves.toEqual({
+        key: 'value',
+      });
+    });
+
+    test('should keep the default key of CommonJS modules', async () => {
+      jest.doMock('pool.js', () => ({ default: 'main' }), { virtual: true });
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadJS('pool.js')).resolves.toEqual({
+        default: 'main',
+      });
+    });
+
+    test('should resolve with default config if JS file does not exist', async () => {
+      const mockPath = 'config.js';
+      const defaultConfig = { defaultKey: 'defaultValue' };
+      (Config as any).default = defaultConfig;
+
+      Config.exist = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('File does not exist'));
+
+      const config = await Config.loadJS(mockPath);
+
+      expect(config).toEqual(defaultConfig);
+    });
+
+    test('should reject with ConfigError if path is invalid', async () => {
+      await expect(Config.loadJS(123 as any)).rejects.toThrow(ConfigError);
+    });
+
+    test('should reject with ConfigError if the file extension is not .js', async () => {
+      await expect(Config.loadJS('config.json')).rejects.toThrow(ConfigError);
+    });
+
+    test('should reject with ConfigError if requiring the JS file fails', async () => {
+      const mockPath = 'my/config.js';
+
+      // Simulate throwing an error while requiring the file
+      jest.doMock(
+        mockPath,
+        () => {
+          throw new Error('Error requiring file');
+        },
+        { virtual: true }
+      );
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadJS(mockPath)).rejects.toThrow(ConfigError);
+    });
+
+    test('should reject with ConfigError if no default config found', async () => {
+      const mockPath = 'config.js';
+
+      Config.exist = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('File does not exist'));
+
+      expect(Config.loadJS(mockPath)).rejects.toThrow(ConfigError);
+    });
+  });
+
+  describe('loadYAML', () => {
+    beforeEach(() => {
+      (Config as any).default = undefined;
+      (Config as any).validators = undefined;
+      jest.clearAllMocks();
+    });
+
+    test('should load YAML file successfully', async () => {
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce(
+        'paths:\n  models: src/models\nport: 3306\n'
+      );
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadYAML('config.yaml')).resolves.toEqual({
+        paths: { models: 'src/models' },
+        port: 3306,
+      });
+      expect(fs.promises.readFile).toHaveBeenCalledWith('config.yaml', 'utf-8');
+    });
+
+    test('should load YML file successfully', async () => {
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce('key: value');
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadYAML('config.yml')).resolves.toEqual({
+        key: 'value',
+      });
+    });
+
+    test('should load rc files written in YAML or JSON', async () => {
+      (fs.promises.readFile as jest.Mock)
+        .mockResolvedValueOnce('key: value')
+        .mockResolvedValueOnce('{"key": "value"}');
+
+      Config.exist = jest.fn().mockResolvedValue(undefined);
+
+      await expect(Config.loadYAML('.megarc')).resolves.toEqual({
+        key: 'value',
+      });
+
+      await expect(Config.loadYAML('.megarc')).resolves.toEqual({
+        key: 'value',
+      });
+    });
+
+    test('should reject with ConfigError including the line and column', async () => {
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce('a: 1\n  b: 2');
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadYAML('config.yaml')).rejects.toThrow(
+        new ConfigError(
+          [
+            'Invalid YAML in config.yaml at line 2, column 3: Unexpected indentation',
+            '',
+            '  1 | a: 1',
+            '> 2 |   b: 2',
+            '    |   ^',
+          ].join('\n')
+        )
+      );
+    });
+
+    test('should resolve with default config if YAML file does not exist', async () => {
+      (Config as any).default = { key: 'default' };
+
+      Config.exist = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('File does not exist'));
+
+      await expect(Config.loadYAML('config.yaml')).resolves.toEqual({
+        key: 'default',
+      });
+    });
+
+    test('should reject with ConfigError if the file extension is not .yaml or .yml', async () => {
+      await expect(Config.loadYAML('config.json')).rejects.toThrow(
+        'Invalid YAML path: config.json'
+      );
+    });
+  });
+
+  describe('loadTOML', () => {
+    beforeEach(() => {
+      (Config as any).default = undefined;
+      (Config as any).validators = undefined;
+      jest.clearAllMocks();
+    });
+
+    test('should load TOML file successfully', async () => {
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce(
+        'port = 3306\n[paths]\nmodels = "src/models"\n'
+      );
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadTOML('config.toml')).resolves.toEqual({
+        paths: { models: 'src/models' },
+        port: 3306,
+      });
+      expect(fs.promises.readFile).toHaveBeenCalledWith('config.toml', 'utf-8');
+    });
+
+    test('should validate the TOML configuration', async () => {
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce(
+        'port = "3306"'
+      );
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+      Config.schema({ port: { type: 'integer' } });
+
+      await expect(Config.loadTOML('config.toml')).rejects.toThrow(
+        'Invalid config:\n- port: expected integer, got string'
+      );
+    });
+
+    test('should reject with ConfigError including the line and column', async () => {
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce('a = 1\na = 2');
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadTOML('config.toml')).rejects.toThrow(
+        new ConfigError(
+          [
+            'Invalid TOML in config.toml at line 2, column 1: Duplicate key "a"',
+            '',
+            '  1 | a = 1',
+            '> 2 | a = 2',
+            '    | ^',
+          ].join('\n')
+        )
+      );
+    });
+
+    test('should resolve with default config if TOML file does not exist', async () => {
+      (Config as any).default = { key: 'default' };
+
+      Config.exist = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('File does not exist'));
+
+      await expect(Config.loadTOML('config.toml')).resolves.toEqual({
+        key: 'default',
+      });
+    });
+
+    test('should reject with ConfigError if the file extension is not .toml', async () => {
+      await expect(Config.loadTOML('config.json')).rejects.toThrow(
+        'Invalid TOML path: config.json'
+      );
+    });
+  });
+
+  describe('loadTS', () => {
+    beforeEach(() => {
+      (Config as any).default = undefined;
+      (Config as any).validators = undefined;
+      (Config as any).transpile = undefined;
+      jest.clearAllMocks();
+    });
+
+    test('should load TS file using the transpile hook', async () => {
+      const source = 'export default { key: "value" as string };';
+      const transpile = jest.fn(() => 'module.exports = { key: "value" };');
+      (Config as any).transpile = transpile;
+
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce(source);
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadTS('/app/config.ts')).resolves.toEqual({
+        key: 'value',
+      });
+      expect(transpile).toHaveBeenCalledWith(source, '/app/config.ts');
+    });
+
+    test('should transpile TS file using typescript by default', async () => {
+      const path = join(__dirname, 'config.ts');
+
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce(
+        'const port: number = 3306;\nexport default { port };'
+      );
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadTS(path)).resolves.toEqual({ port: 3306 });
+    });
+
+    test('should transpile the local TS files imported by the TS file', async () => {
+      const ts = require('typescript');
+      const root = fs.mkdtempSync(join(tmpdir(), 'megaorm-config-'));
+      const transpile = jest.fn(
+        (source: string, path: string) =>
+          ts.transpileModule(source, {
+            fileName: path,
+            compilerOptions: { module: ts.ModuleKind.CommonJS },
+          }).outputText
+      );
+
+      (Config as any).transpile = transpile;
+
+      fs.mkdirSync(join(root, 'pool'));
+      fs.writeFileSync(
+        join(root, 'db.ts'),
+        "import pool from './pool';\nexport const db = { host: 'a' as string, pool };"
+      );
+      fs.writeFileSync(join(root, 'db.js'), 'module.exports = {};'); // Ignored
+      fs.writeFileSync(
+        join(root, 'pool', 'index.ts'),
+        'export default { max: 10 as number };'
+      );
+
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce(
+        "import { db } from './db';\nexport default { db };"
+      );
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      try {
+        await expect(Config.loadTS(join(root, 'config.ts'))).resolves.toEqual({
+          db: { host: 'a', pool: { max: 10 } },
+        });
+
+        expect(transpile).toHaveBeenCalledTimes(3);
+        expect(transpile).toHaveBeenCalledWith(
+          expect.any(String),
+          join(root, 'pool', 'index.ts')
+        );
+      } finally {
+        fs.rmSync(root, { recursive: true, force: true });
+      }
+    });
+
+    test('should reject with ConfigError if typescript is not installed', async () => {
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce('');
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+
+      await expect(Config.loadTS('/app/config.ts')).rejects.toThrow(
+        'Cannot load TypeScript config: provide a transpile hook or install typescript'
+      );
+    });
+
+    test('should reject with ConfigError if the file extension is not .ts', async () => {
+      await expect(Config.loadTS('config.js')).rejects.toThrow(
+        'Invalid TS path: config.js'
+      );
+    });
+  });
+
+  describe('hook', () => {
+    beforeEach(() => {
+      (Config as any).hooks = undefined;
+      (Config as any).default = undefined;
+      (Config as any).validators = undefined;
+      (Config as any).loaded = undefined;
+      jest.clearAllMocks();
+    });
+
+    test('should throw ConfigError if the hook is invalid', () => {
+      expect(() => Config.hook('afterLoad' as any, () => {})).toThrow(
+        'Invalid hook name: afterLoad'
+      );
+
+      expect(() => Config.hook('onError', 'hook' as any)).toThrow(
+        'Invalid hook: hook'
+      );
+    });
+
+    test('should call beforeLoad with the path and format before reading', async () => {
+      const beforeLoad = jest.fn(() => {
+        expect(fs.promises.readFile).not.toHaveBeenCalled();
+      });
+
+      Config.hook('beforeLoad', beforeLoad);
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce('{"a": 1}');
+
+      await expect(Config.loadJSON('config.json')).resolves.toEqual({ a: 1 });
+      expect(beforeLoad).toHaveBeenCalledWith('config.json', 'JSON');
+    });
+
+    test('should let afterValidate hooks patch the validated config', async () => {
+      Config.register((config) => ({ ...config, validated: true }));
+      Config.hook('afterValidate', (config) => ({ ...config, patched: true }));
+      Config.hook('afterValidate', async (config) => {
+        config.async = true; // Returning nothing keeps the config
+      });
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce('{"a": 1}');
+
+      await expect(Config.loadJSON('config.json')).resolves.toEqual({
+        a: 1,
+        validated: true,
+        patched: true,
+        async: true,
+      });
+    });
+
+    test('should call onError with the error and its stage', async () => {
+      const onError = jest.fn();
+      Config.hook('onError', onError);
+
+      // resolve
+      await expect(Config.loadJSON('config.txt')).rejects.toThrow(ConfigError);
+      expect(onError).toHaveBeenLastCalledWith(
+        new ConfigError('Invalid JSON path: config.txt'),
+        'resolve'
+      );
+
+      // read
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+      (fs.promises.readFile as jest.Mock).mockRejectedValueOnce(
+        new Error('EACCES')
+      );
+
+      await expect(Config.loadJSON('config.json')).rejects.toThrow('EACCES');
+      expect(onError).toHaveBeenLastCalledWith(
+        new ConfigError('EACCES'),
+        'read'
+      );
+
+      // parse
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce('{');
+
+      await expect(Config.loadJSON('config.json')).rejects.toThrow(ConfigError);
+      expect(onError).toHaveBeenLastCalledWith(
+        expect.any(ConfigError),
+        'parse'
+      );
+
+      // validate
+      Config.register(function checkPort() {
+        throw new Error('Invalid port');
+      });
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce('{}');
+
+      await expect(Config.loadJSON('config.json')).rejects.toThrow(ConfigError);
+      expect(onError).toHaveBeenLastCalledWith(
+        new ConfigError('Validator "checkPort" failed: Invalid port'),
+        'validate'
+      );
+
+      // The rejection is the reported error
+      const error = await Config.reload().catch((error) => error);
+      expect(onError).toHaveBeenLastCalledWith(error, 'resolve');
+      expect(onError).toHaveBeenCalledTimes(5);
+    });
+
+    test('should reject with the original error if an onError hook throws', async () => {
+      const onError = jest.fn();
+
+      Config.hook('onError', () => {
+        throw new Error('hook boom');
+      });
+      Config.hook('onError', onError);
+
+      Config.exist = jest.fn().mockResolvedValue(undefined);
+      (fs.promises.readFile as jest.Mock).mockResolvedValue('{');
+
+      await expect(Config.loadJSON('config.json')).rejects.toThrow(ConfigError);
+      expect(onError).toHaveBeenCalledWith(expect.any(ConfigError), 'parse');
+
+      // The in-flight load is cleared, so later loads settle too
+      (Config as any).config = undefined;
+      (Config as any).file = 'config.json';
+      (Config as any).root = 'root';
+      await expect(Config.load()).rejects.toThrow(ConfigError);
+      await expect(Config.load()).rejects.toThrow(ConfigError);
+
+      (Config as any).file = undefined;
+      (Config as any).root = undefined;
+      (fs.promises.readFile as jest.Mock).mockReset();
+    });
+
+    test('should call onReload with the previous and next config', async () => {
+      const onReload = jest.fn();
+      Config.hook('onReload', onReload);
+
+      Config.exist = jest.fn().mockResolvedValue(undefined);
+      (fs.promises.readFile as jest.Mock)
+        .mockResolvedValueOnce('{"a": 1}')
+        .mockResolvedValueOnce('{"a": 2}');
+
+      await Config.loadJSON('config.json');
+      expect(onReload).not.toHaveBeenCalled();
+
+      await Config.reload();
+      expect(onReload).toHaveBeenCalledWith({ a: 1 }, { a: 2 });
+    });
+
+    test('should resolve with the reloaded config if an onReload hook throws', async () => {
+      const onReload = jest.fn();
+
+      Config.hook('onReload', () => {
+        throw new Error('hook boom');
+      });
+      Config.hook('onReload', onReload);
+
+      Config.exist = jest.fn().mockResolvedValue(undefined);
+      (fs.promises.readFile as jest.Mock)
+        .mockResolvedValueOnce('{"a": 1}')
+        .mockResolvedValueOnce('{"a": 2}');
+
+      await Config.loadJSON('config.json');
+
+      await expect(Config.reload()).resolves.toEqual({ a: 2 });
+      expect(onReload).toHaveBeenCalledWith({ a: 1 }, { a: 2 });
+      expect((Config as any).config).toEqual({ a: 2 });
+    });
+
+    test('should not call hooks registered on other subclasses', async () => {
+      class MainConfig extends Config {}
+      class TestConfig extends Config {}
+
+      const main = jest.fn();
+      const test = jest.fn();
+
+      MainConfig.hook('beforeLoad', main);
+      TestConfig.hook('beforeLoad', test);
+
+      Config.exist = jest.fn().mockResolvedValueOnce(undefined);
+      (fs.promises.readFile as jest.Mock).mockResolvedValueOnce('{}');
+
+      await TestConfig.loadJSON('config.json');
+
+      expect(test).toHaveBeenCalledTimes(1);
+      expect(main).not.toHaveBeenCalled();
+      expect((Config as any).hooks).toBeUndefined();
+    });
+  });
+
+  describe('isolation', () => {
+    let root: string;
+
+    const write = (name: string, content: string) =>
+      fs.writeFileSync(join(root, name), content);
+
+    // Creates a subclass loading the given file from the temporary root
+    const subclass = (name: string) =>
+      class extends Config {
+        protected static file = name;
+        protected static root = root;
+      };
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(join(tmpdir(), 'megaorm-config-'));
+      write('a.js', "module.exports = { name: 'a' };");
+      write('b.js', "module.exports = { name: 'b' };");
+
+      (Config as any).config = undefined;
+      (Config as any).default = undefined;
+      (Config as any).validators = undefined;
+
+      Config.exist = jest.fn().mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('should cache the config of sibling subclasses separately', async () => {
+      const A = subclass('a.js');
+      const B = subclass('b.js');
+
+      await expect(A.load()).resolves.toEqual({ name: 'a' });
+      await expect(B.load()).resolves.toEqual({ name: 'b' });
+
+      expect(A.get('name')).toBe('a');
+      expect(B.get('name')).toBe('b');
+      expect((Config as any).config).toBeUndefined();
+      expect(() => Config.get('name')).toThrow(ConfigError);
+    });
+
+    test('should never share validators between classes', async () => {
+      const parent = jest.fn((config) => config);
+      const validator = jest.fn((config) => ({ ...config, checked: true }));
+      const A = subclass('a.js');
+      const B = subclass('b.js');
+
+      Config.register(parent);
+      A.register(validator);
+
+      await expect(A.load()).resolves.toEqual({ name: 'a', checked: true });
+      await expect(B.load()).resolves.toEqual({ name: 'b' });
+
+      expect(parent).not.toHaveBeenCalled();
+      expect(validator).toHaveBeenCalledTimes(1);
+      expect((Config as any).validators).toEqual([parent]);
+      expect((A as any).validators).toEqual([validator]);
+    });
+
+    test('should run the parent validators first if inherit is enabled', async () => {
+      const calls: Array<string> = [];
+      const Parent = subclass('a.js');
+
+      class Child extends Parent {
+        protected static inherit = true;
+      }
+
+      class Other extends Parent {}
+
+      Parent.register(() => calls.push('parent'));
+      Child.register(() => calls.push('child'));
+
+      await Child.load();
+      await Other.load();
+
+      expect(calls).toEqual(['parent', 'child']);
+    });
+
+    test('should not use the root resolved by a parent class', () => {
+      class Parent extends Config {}
+      (Parent as any).root = '/parent';
+      (Parent as any).resolved = { cwd: process.cwd(), root: '/parent' };
+
+      class Child extends Parent {
+        protected static strategies = [() => '/child'];
+      }
+
+      class Explicit extends Parent {
+        protected static root = '/explicit';
+      }
+
+      expect(Child.resolveSync()).toBe('/child');
+      expect(Parent.resolveSync()).toBe('/parent');
+      expect(Explicit.resolveSync()).toBe('/explicit');
+    });
+
+    test('should reset the state of one class only', async () => {
+      const A = subclass('a.js');
+      const B = subclass('b.js');
+
+      A.register((config) => ({ ...config, checked: true }));
+      await A.load();
+      await B.load();
+
+      A.reset();
+
+      expect(() => A.get('name')).toThrow(ConfigError);
+      expect((A as any).validators).toBeUndefined();
+      expect((A as any).loaded).toBeUndefined();
+      expect(A.resolveSync()).toBe(root); // The explicit root is kept
+      expect(B.get('name')).toBe('b');
+
+      write('a.js', "module.exports = { name: 'a2' };");
+      await expect(A.load()).resolves.toEqual({ name: 'a2' });
+    });
+
+    test('should forget the resolved root on reset', () => {
+      class A extends Config {
+        protected static strategies = [() => process.cwd()];
+      }
+
+      expect(A.resolveSync()).toBe(process.cwd());
+      expect((A as any).root).toBe(process.cwd());
+
+      A.reset();
+      expect(Object.prototype.hasOwnProperty.call(A, 'root')).toBe(false);
+    });
+  });
+
+  describe('loadSync', () => {
+    let root: string;
+
+    const write = (name: string, content: string) =>
+      fs.writeFileSync(join(root, name), content);
+
+    // Creates a subclass loading the given file from the temporary root
+    const subclass = (name: string) =>
+      class extends Config {
+        protected static file = name;
+        protected static root = root;
+      };
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(join(tmpdir(), 'megaorm-config-'));
+      (Config as any).hooks = undefined;
+      (Config as any).validators = undefined;
+    });
+
+    afterEach(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('should load and cache the config synchronously', async () => {
+      write('config.js', "module.exports = { name: 'app' };");
+      const Sync = subclass('config.js');
+
+      const config = Sync.loadSync();
+
+      expect(config).toEqual({ name: 'app' });
+      expect(Sync.loadSync()).toBe(config);
+      await expect(Sync.load()).resolves.toBe(config);
+      expect(Sync.get('name')).toBe('app');
+    });
+
+    test('should not change the module cached by require', () => {
+      write('config.js', "module.exports = { paths: { models: 'models' } };");
+      process.env.MEGA_SYNC_PATHS__MODELS = 'env';
+
+      const Sync = class extends subclass('config.js') {
+        protected static prefix = 'MEGA_SYNC_';
+        protected static freeze = true;
+      };
+
+      Sync.register((config) => {
+        config.checked = true;
+        return config;
+      });
+
+      expect(Sync.loadSync()).toEqual({
+        paths: { models: 'env' },
+        checked: true,
+      });
+
+      const module = require(join(root, 'config.js'));
+
+      expect(module).toEqual({ paths: { models: 'models' } });
+      expect(Object.isFrozen(module)).toBe(false);
+
+      delete process.env.MEGA_SYNC_PATHS__MODELS;
+    });
+
+    test('should not print the code frame of syntax errors if secrets are set', () => {
+      write('config.json', '{\n  "db": { "password": "hunter2",, }\n}');
+
+      const Secret = class extends subclass('config.json') {
+        protected static secrets = ['*.password'];
+      };
+
+      const error = (() => {
+        try {
+          Secret.loadSync();
+        } catch (error) {
+          return error;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(ConfigError);
+      expect(error.message).toContain('at line 2');
+      expect(error.message).not.toContain('hunter2');
+
+      // Without secrets, the code frame shows the failing line
+      expect(() => subclass('config.json').loadSync()).toThrow('hunter2');
+    });
+
+    test('should share the default fallback and validators of load', () => {
+      write('config.jsonc', '{ db: { host: "db" }, // comment\n}');
+      const Sync = class extends subclass('config.jsonc') {
+        protected static default = { db: { host: 'localhost', port: 3306 } };
+        protected static mode = 'merge' as const;
+      };
+
+      Sync.register((config) => ({ ...config, checked: true }));
+
+      expect(Sync.loadSync()).toEqual({
+        db: { host: 'db', port: 3306 },
+        checked: true,
+      });
+
+      const Missing = class extends subclass('missing.json') {
+        protected static default = { name: 'default' };
+      };
+
+      expect(Missing.loadSync()).toEqual({ name: 'default' });
+      expect(Missing.get('name')).toBe('default');
+    });
+
+    test('should load JSON and JS files directly', () => {
+      write('config.json', '{"name": "json"}');
+      write('config.cjs', "module.exports = { name: 'js' };");
+
+      const JSONConfig = subclass('unused.json');
+      const JSConfig = subclass('unused.json');
+
+      expect(JSONConfig.loadJSONSync(join(root, 'config.json'))).toEqual({
+        name: 'json',
+      });
+
+      expect(JSConfig.loadJSSync(join(root, 'config.cjs'))).toEqual({
+        name: 'js',
+      });
+
+      expect(() => JSONConfig.loadJSONSync(join(root, 'config.cjs'))).toThrow(
+        `Invalid JSON path: ${join(root, 'config.cjs')}`
+      );
+    });
+
+    test('should throw ConfigError if a validator returns a Promise', () => {
+      write('config.json', '{"name": "app"}');
+      const Sync = subclass('config.json');
+      const onError = jest.fn();
+
+      Sync.hook('onError', onError);
+      Sync.register(async function checkName(config) {
+        return config;
+      });
+
+      expect(() => Sync.loadSync()).toThrow(
+        new ConfigError(
+          'Validator "checkName" returned a Promise, which is not supported when loading synchronously, use load() instead'
+        )
+      );
+
+      expect(onError).toHaveBeenCalledWith(expect.any(ConfigError), 'validate');
+      expect(() => Sync.get('name')).toThrow(ConfigError);
+    });
+
+    test('should throw ConfigError if a hook returns a Promise', () => {
+      write('config.json', '{"name": "app"}');
+      const Sync = subclass('config.json');
+
+      Sync.hook('afterValidate', async () => undefined);
+
+      expect(() => Sync.loadSync()).toThrow(
+        'An afterValidate hook returned a Promise'
+      );
+    });
+
+    test('should throw ConfigError for ES modules', () => {
+      write('config.mjs', "export default { name: 'app' };");
+
+      expect(() => subclass('config.mjs').loadSync()).toThrow(
+        `Cannot load ES module synchronously: ${join(root, 'config.mjs')}`
+      );
+    });
+
+    test('should report syntax errors as parse errors', () => {
+      write('config.json', '{"name": }');
+      const Sync = subclass('config.json');
+      const onError = jest.fn();
+
+      Sync.hook('onError', onError);
+
+      expect(() => Sync.loadSync()).toThrow(ConfigError);
+      expect(onError).toHaveBeenCalledWith(expect.any(ConfigError), 'parse');
+    });
+  });
+
+  describe('save', () => {
+    const actual = jest.requireActual('fs').promises;
+    const writeFile = fs.promises.writeFile as jest.Mock;
+    const readFile = fs.promises.readFile as jest.Mock;
+    let root: string;
+
+    const write = (name: string, content: string) =>
+      fs.writeFileSync(join(root, name), content);
+
+    const read = (name: string) => fs.readFileSync(join(root, name), 'utf-8');
+
+    // Creates a subclass saving to the given file in the temporary root
+    const subclass = (name: string) =>
+      class extends Config {
+        protected static file = name;
+        protected static root = root;
+      };
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(join(tmpdir(), 'megaorm-config-'));
+      writeFile.mockImplementation(actual.writeFile);
+      readFile.mockImplementation(actual.readFile);
+      (Config as any).validators = undefined;
+      (Config as any).hooks = undefined;
+    });
+
+    afterEach(() => {
+      writeFile.mockReset();
+      readFile.mockReset();
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('should validate, write and cache the config as JSON', async () => {
+      write('config.json', '{"name": "old"}');
+      const Save = subclass('config.json');
+
+      Save.register((config) => ({ ...config, checked: true }));
+
+      await expect(Save.save({ name: 'new' })).resolves.toEqual({
+        name: 'new',
+        checked: true,
+      });
+
+      expect(read('config.json')).toBe(
+        '{\n  "name": "new",\n  "checked": true\n}\n'
+      );
+
+      expect(Save.get('name')).toBe('new');
+      expect(fs.readdirSync(root)).toEqual(['config.json']);
+    });
+
+    test('should not write values of the default, env variables or siblings', async () => {
+      const existsSync = fs.existsSync as jest.Mock;
+      existsSync.mockImplementation(jest.requireActual('fs').existsSync);
+      Config.exist = jest.fn((path: string) => actual.access(path));
+      process.env.MEGA_SAVE_DB__PASSWORD = 'fromenv';
+
+      write(
+        'config.json',
+        '{"db": {"password": "placeholder"}, "name": "app"}'
+      );
+      write('config.production.json', '{"name": "prod"}');
+
+      const Save = class extends subclass('config.json') {
+        protected static prefix = 'MEGA_SAVE_';
+        protected static environment = 'production';
+        protected static default = { debug: false, paths: { models: 'm' } };
+        protected static mode = 'merge' as const;
+      };
+
+      await Save.load();
+      await Save.save({ ...Save.snapshot(), debug: true });
+
+      expect(JSON.parse(read('config.json'))).toEqual({
+        debug: true,
+        db: { password: 'placeholder' },
+        name: 'app',
+      });
+
+      // The cache keeps every value
+      expect(Save.get('db.password')).toBe('fromenv');
+      expect(Save.get('name')).toBe('prod');
+      expect(Save.get('paths.models')).toBe('m');
+
+      delete process.env.MEGA_SAVE_DB__PASSWORD;
+      existsSync.mockReset();
+    });
+
+    test('should reject values that cannot be written before writing', async () => {
+      class Cluster {
+        public connect() {}
+      }
+
+      write('config.json', '{"name": "old"}');
+      const Save = subclass('config.json');
+
+      const cases: Array<[Record<string, unknown>, string]> = [
+        [{ cluster: new Cluster() }, 'Cannot save Cluster instance at cluster'],
+        [{ when: new Date(0) }, 'Cannot save Date instance at when'],
+        [{ list: [/x/] }, 'Cannot save RegExp instance at list.0'],
+        [{ hook: () => {} }, 'Cannot save function value at hook'],
+        [{ port: NaN }, 'Cannot save NaN at port'],
+      ];
+
+      for (const [config, message] of cases) {
+        await expect(Save.save(config)).rejects.toThrow(ConfigError);
+        await expect(Save.save(config)).rejects.toThrow(message);
+      }
+
+      expect(read('config.json')).toBe('{"name": "old"}');
+      expect(fs.readdirSync(root)).toEqual(['config.json']);
+    });
+
+    test('should write JS config files as CommonJS modules', async () => {
+      const Save = subclass('config.js');
+
+      await Save.save({ paths: { models: 'models' } });
+
+      expect(read('config.js')).toBe(
+        'module.exports = {\n  "paths": {\n    "models": "models"\n  }\n};\n'
+      );
+    });
+
+    test('should not write or cache an invalid config', async () => {
+      write('config.json', '{"name": "old"}');
+      const Save = subclass('config.json');
+
+      Save.register(function checkName(config) {
+        if (config.name === '') throw new Error('Empty name');
+        return config;
+      });
+
+      await expect(Save.save({ name: '' })).rejects.toThrow(
+        'Validator "checkName" failed: Empty name'
+      );
+
+      expect(read('config.json')).toBe('{"name": "old"}');
+      expect(() => Save.get('name')).toThrow(ConfigError);
+    });
+
+    test('should keep the cache if the write fails', async () => {
+      const Save = subclass('config.json');
+
+      (Save as any).config = { name: 'old' };
+      writeFile.mockRejectedValueOnce(new Error('EACCES: permission denied'));
+
+      await expect(Save.save({ name: 'new' })).rejects.toThrow(
+        'EACCES: permission denied'
+      );
+
+      expect(Save.get('name')).toBe('old');
+      expect(fs.readdirSync(root)).toEqual([]);
+    });
+
+    test('should back up the previous file if enabled', async () => {
+      write('config.json', '{"name": "old"}');
+      const Save = class extends subclass('config.json') {
+        protected static backup = true;
+      };
+
+      await Save.save({ name: 'new' });
+
+      const backups = fs
+        .readdirSync(root)
+        .filter((file) => /^config\.json\..+\.bak$/.test(file));
+
+      expect(backups).toHaveLength(1);
+      expect(read(backups[0])).toBe('{"name": "old"}');
+      expect(JSON.parse(read('config.json'))).toEqual({ name: 'new' });
+    });
+
+    test('should only replace the property of package.json', async () => {
+      write('package.json', '{"name": "app", "megaorm": {"a": 1}}');
+      const Save = class extends subclass('package.json') {
+        protected static property = 'megaorm';
+      };
+
+      await Save.save({ a: 2 });
+
+      expect(JSON.parse(read('package.json'))).toEqual({
+        name: 'app',
+        megaorm: { a: 2 },
+      });
+    });
+
+    test('should write the real values of secrets', async () => {
+      const Save = class extends subclass('config.json') {
+        protected static secrets = ['db.password'];
+      };
+
+      await Save.save({ db: { password: 'hunter2' } });
+
+      expect(JSON.parse(read('config.json'))).toEqual({
+        db: { password: 'hunter2' },
+      });
+
+      expect(JSON.stringify(Save.snapshot())).toContain('hunter2');
+      expect(JSON.stringify((Save as any).config)).not.toContain('hunter2');
+    });
+
+    test('should reject with ConfigError if the format cannot be written', async () => {
+      const Save = subclass('config.yaml');
+
+      await expect(Save.save({ a: 1 })).rejects.toThrow(
+        'Cannot save config files with extention: .yaml'
+      );
+
+      await expect(Save.save('config' as any)).rejects.toThrow(
+        'Invalid config: config'
+      );
+    });
+  });
+
+  describe('init', () => {
+    const actual = jest.requireActual('fs').promises;
+    const writeFile = fs.promises.writeFile as jest.Mock;
+    const mkdir = fs.promises.mkdir as jest.Mock;
+    let root: string;
+
+    const read = (name: string) => fs.readFileSync(join(root, name), 'utf-8');
+
+    // Creates a subclass writing the given file to the temporary root
+    const subclass = (name: string) =>
+      class extends Config {
+        protected static file = name;
+        protected static root = root;
+        protected static default = {
+          debug: false,
+          paths: { models: 'src/models', seeders: 'seeders' },
+        };
+      };
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(join(tmpdir(), 'megaorm-config-'));
+      writeFile.mockImplementation(actual.writeFile);
+      mkdir.mockImplementation(actual.mkdir);
+      Config.exist = jest.fn((path: string) => actual.access(path));
+    });
+
+    afterEach(() => {
+      writeFile.mockReset();
+      mkdir.mockReset();
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('should write a commented JS starter config', async () => {
+      const Init = class extends subclass('mega.config.js') {
+        protected static descriptions = {
+          'paths.models': 'The directory of the models',
+        };
+      };
+
+      await expect(Init.init()).resolves.toBe(join(root, 'mega.config.js'));
+
+      expect(read('mega.config.js')).toBe(
+        [
+          'module.exports = {',
+          '  // debug (boolean)',
+          '  debug: false,',
+          '  // paths (object)',
+          '  paths: {',
+          '    // The directory of the models',
+          '    models: "src/models",',
+          '    // paths.seeders (string)',
+          '    seeders: "seeders",',
+          '  },',
+          '};',
+          '',
+        ].join('\n')
+      );
+
+      expect(require(join(root, 'mega.config.js'))).toEqual({
+        debug: false,
+        paths: { models: 'src/models', seeders: 'seeders' },
+      });
+    });
+
+    test('should write a JSON starter config', async () => {
+      await subclass('.megarc').init({ format: 'json' });
+
+      expect(JSON.parse(read('.megarc'))).toEqual({
+        debug: false,
+        paths: { models: 'src/models', seeders: 'seeders' },
+      });
+    });
+
+    test('should create the directories of paths', async () => {
+      await subclass('mega.config.json').init();
+
+      expect(fs.statSync(join(root, 'src/models')).isDirectory()).toBe(true);
+      expect(fs.statSync(join(root, 'seeders')).isDirectory()).toBe(true);
+    });
+
+    test('should refuse to overwrite an existing file unless forced', async () => {
+      const Init = subclass('mega.config.json');
+      fs.writeFileSync(join(root, 'mega.config.json'), '{}');
+
+      await expect(Init.init()).rejects.toThrow(
+        `Config file already exists: ${join(root, 'mega.config.json')}`
+      );
+
+      expect(read('mega.config.json')).toBe('{}');
+
+      await Init.init({ force: true });
+      expect(JSON.parse(read('mega.config.json'))).toHaveProperty('debug');
+    });
+
+    test('should reject formats not matching the file', async () => {
+      await expect(
+        subclass('mega.config.json').init({ format: 'js' })
+      ).rejects.toThrow('Cannot write js starter config to:');
+
+      await expect(subclass('mega.config.toml').init()).rejects.toThrow(
+        'Cannot write json starter config to:'
+      );
+
+      await expect(subclass('config.json').init(null)).rejects.toThrow(
+        'Invalid options: null'
+      );
+    });
+  });
+
+  describe('explain', () => {
+    const actual = jest.requireActual('fs');
+    const readFile = fs.promises.readFile as jest.Mock;
+    const writeFile = fs.promises.writeFile as jest.Mock;
+    const existsSync = fs.existsSync as jest.Mock;
+    let root: string;
+
+    const write = (name: string, content: string) =>
+      fs.writeFileSync(join(root, name), content);
+
+    // Creates a subclass loading the given file from the temporary root
+    const subclass = (name: string) =>
+      class extends Config {
+        protected static file = name;
+        protected static root = root;
+        protected static default = {
+          debug: false,
+          paths: { models: 'models', seeders: 'seeders' },
+        };
+        protected static mode = 'merge' as const;
+        protected static prefix = 'MEGA_EXPLAIN_';
+        protected static environment = 'production';
+      };
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(join(tmpdir(), 'megaorm-config-'));
+      readFile.mockImplementation(actual.promises.readFile);
+      writeFile.mockImplementation(actual.promises.writeFile);
+      existsSync.mockImplementation(actual.existsSync);
+      Config.exist = jest.fn((path: string) => actual.promises.access(path));
+      (Config as any).validators = undefined;
+      (Config as any).hooks = undefined;
+    });
+
+    afterEach(() => {
+      readFile.mockReset();
+      writeFile.mockReset();
+      existsSync.mockReset();
+      delete process.env.MEGA_EXPLAIN_PATHS__SEEDERS;
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('should cache and explain the default fallback', async () => {
+      process.env.MEGA_EXPLAIN_PATHS__SEEDERS = 'db/seeders';
+      const Missing = subclass('missing.json');
+
+      await Missing.load();
+
+      expect(Missing.get('paths.models')).toBe('models');
+      expect(Missing.has('paths.seeders')).toBe(true);
+      expect(Missing.require('debug')).toBe(false);
+      expect(Missing.snapshot()).toEqual({
+        debug: false,
+        paths: { models: 'models', seeders: 'db/seeders' },
+      });
+
+      expect(Missing.explain('paths.seeders').sources).toEqual([
+        { type: 'default' },
+        { type: 'env', name: 'MEGA_EXPLAIN_PATHS__SEEDERS' },
+      ]);
+    });
+
+    test('should list the sources of a value in order', async () => {
+      write(
+        'config.json',
+        '{\n  "paths": {\n    "models": "src/models"\n  }\n}'
+      );
+      write('config.production.json', '{"debug": true}');
+      process.env.MEGA_EXPLAIN_PATHS__SEEDERS = 'db/seeders';
+
+      const Explain = subclass('config.json');
+
+      Explain.register(function absolute(config) {
+        config.paths.models = `/app/${config.paths.models}`;
+        return config;
+      });
+
+      await Explain.load();
+
+      expect(Explain.explain('paths.models')).toEqual({
+        value: '/app/src/models',
+        sources: [
+          { type: 'default' },
+          { type: 'file', path: join(root, 'config.json'), line: 3 },
+          { type: 'validator', name: 'absolute' },
+        ],
+      });
+
+      expect(Explain.explain('paths.seeders')).toEqual({
+        value: 'db/seeders',
+        sources: [
+          { type: 'default' },
+          { type: 'env', name: 'MEGA_EXPLAIN_PATHS__SEEDERS' },
+        ],
+      });
+
+      expect(Explain.explain('debug').sources).toEqual([
+        { type: 'default' },
+        {
+          type: 'file',
+          path: join(root, 'config.production.json'),
+          line: 1,
+        },
+      ]);
+
+      // Sources of nested values are listed once, with the line of the object
+      expect(Explain.explain('paths').sources).toEqual([
+        { type: 'default' },
+        { type: 'file', path: join(root, 'config.json'), line: 2 },
+        { type: 'env', name: 'MEGA_EXPLAIN_PATHS__SEEDERS' },
+        { type: 'validator', name: 'absolute' },
+      ]);
+    });
+
+    test('should trace the changes of afterValidate hooks', async () => {
+      write('config.json', '{"port": 80}');
+      const Explain = subclass('config.json');
+
+      Explain.hook('afterValidate', function patchPort(config) {
+        return { ...config, port: 99 };
+      });
+      Explain.hook('afterValidate', (config) => {
+        config.debug = true; // Mutating in place is traced too
+      });
+
+      await Explain.load();
+
+      expect(Explain.explain('port')).toEqual({
+        value: 99,
+        sources: [
+          { type: 'file', path: join(root, 'config.json'), line: 1 },
+          { type: 'hook', name: 'patchPort' },
+        ],
+      });
+
+      expect(Explain.explain('debug').sources).toEqual([
+        { type: 'default' },
+        { type: 'hook', name: '#2' },
+      ]);
+    });
+
+    test('should trace values saved by code as overrides', async () => {
+      write('config.json', '{"debug": true}');
+      const Explain = subclass('config.json');
+
+      const config = Explain.loadSync();
+      await Explain.save({ ...config, debug: false });
+
+      expect(Explain.explain('debug')).toEqual({
+        value: false,
+        sources: [{ type: 'override' }],
+      });
+
+      expect(Explain.explain('paths.models').sources).toEqual([
+        { type: 'default' },
+      ]);
+    });
+
+    test('should explain missing values and throw if nothing is loaded', () => {
+      const Explain = subclass('config.json');
+
+      expect(() => Explain.explain('debug')).toThrow(
+        'Cannot access "debug" before the config is loaded, call load() first'
+      );
+
+      write('config.json', '{}');
+      Explain.loadSync();
+
+      expect(Explain.explain('missing')).toEqual({
+        value: undefined,
+        sources: [],
+      });
+    });
+  });
+
+  describe('sources', () => {
+    const actual = jest.requireActual('fs');
+    const existsSync = fs.existsSync as jest.Mock;
+    const watch = fs.watch as unknown as jest.Mock;
+    let root: string;
+
+    const write = (name: string, content: string) =>
+      fs.writeFileSync(join(root, name), content);
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(join(tmpdir(), 'megaorm-config-'));
+      existsSync.mockImplementation(actual.existsSync);
+      (Config as any).validators = undefined;
+      (Config as any).hooks = undefined;
+    });
+
+    afterEach(() => {
+      existsSync.mockReset();
+      watch.mockReset();
+      delete process.env.MEGA_SOURCES_PORT;
+      delete process.env.MEGA_SOURCES_DB__HOST;
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('should merge the sources in order over the default config', async () => {
+      write('app.json', '{"port": 80, "db": {"host": "localhost"}}');
+      write('app.local.json', '{"db": {"user": "dev"}}');
+      write('package.json', '{"name": "app", "app": {"debug": true}}');
+      process.env.MEGA_SOURCES_PORT = '8080';
+
+      class Sourced extends Config {
+        protected static root = root;
+        protected static default = { debug: false, name: 'app' };
+        protected static sources = [
+          this.fileSource('app.json'),
+          this.fileSource('app.local.json'),
+          this.fileSource('missing.json', true),
+          this.packageSource('app'),
+          this.envSource('MEGA_SOURCES_'),
+          this.objectSource({ name: 'api' }, 'overrides'),
+        ];
+      }
+
+      await expect(Sourced.load()).resolves.toEqual({
+        debug: true,
+        name: 'api',
+        port: 8080,
+        db: { host: 'localhost', user: 'dev' },
+      });
+
+      expect(Sourced.explain('port').sources).toEqual([
+        { type: 'file', path: join(root, 'app.json'), line: 1 },
+        { type: 'source', name: 'env:MEGA_SOURCES_' },
+      ]);
+
+      expect(Sourced.explain('db').sources).toEqual([
+        { type: 'file', path: join(root, 'app.json'), line: 1 },
+        { type: 'file', path: join(root, 'app.local.json'), line: 1 },
+      ]);
+
+      expect(Sourced.explain('debug').sources).toEqual([
+        { type: 'default' },
+        { type: 'source', name: 'package.json:app' },
+      ]);
+    });
+
+    test('should match the keys of previous sources in env sources', async () => {
+      process.env.MEGA_SOURCES_DB__HOST = 'db.internal';
+
+      class Sourced extends Config {
+        protected static root = root;
+        protected static sources = [
+          this.objectSource({ db: { Host: 'localhost', port: 5432 } }),
+          this.envSource('MEGA_SOURCES_'),
+        ];
+      }
+
+      await expect(Sourced.load()).resolves.toEqual({
+        db: { Host: 'db.internal', port: 5432 },
+      });
+    });
+
+    test('should validate the merged config', async () => {
+      class Sourced extends Config {
+        protected static root = root;
+        protected static sources = [this.objectSource({ port: 'http' })];
+      }
+
+      Sourced.register(function checkPort(config) {
+        if (typeof config.port !== 'number') throw new Error('Invalid port');
+        return config;
+      });
+
+      await expect(Sourced.load()).rejects.toThrow(
+        'Validator "checkPort" failed: Invalid port'
+      );
+    });
+
+    test('should load synchronous sources with loadSync', () => {
+      write('app.json', '{"port": 80}');
+
+      class Sourced extends Config {
+        protected static root = root;
+        protected static sources = [
+          this.fileSource('app.json'),
+          { name: 'computed', load: (config) => ({ url: `:${config.port}` }) },
+        ];
+      }
+
+      expect(Sourced.loadSync()).toEqual({ port: 80, url: ':80' });
+    });
+
+    test('should throw ConfigError if a source returns a Promise in loadSync', () => {
+      class Sourced extends Config {
+        protected static root = root;
+        protected static sources = [
+          { name: 'remote', load: () => Promise.resolve({ port: 80 }) },
+        ];
+      }
+
+      expect(() => Sourced.loadSync()).toThrow(
+        'Source "remote" returned a Promise, which is not supported when loading synchronously, use load() instead'
+      );
+    });
+
+    test('should reject with ConfigError for invalid sources and values', async () => {
+      class Missing extends Config {
+        protected static root = root;
+        protected static sources = [this.fileSource('missing.json')];
+      }
+
+      class Invalid extends Config {
+        protected static root = root;
+        protected static sources = [{ name: 'list', load: () => [1, 2] }];
+      }
+
+      class Broken extends Config {
+        protected static root = root;
+        protected static sources = [{ name: 'broken' }] as any;
+      }
+
+      await expect(Missing.load()).rejects.toThrow(ConfigError);
+      await expect(Missing.load()).rejects.toThrow('missing.json');
+      await expect(Invalid.load()).rejects.toThrow(
+        'Source "list" loaded invalid values: 1,2'
+      );
+      await expect(Broken.load()).rejects.toThrow('Invalid sources');
+
+      expect(() => Config.fileSource(1 as any)).toThrow('Invalid path: 1');
+      expect(() => Config.envSource('')).toThrow('Invalid prefix: ');
+      expect(() => Config.objectSource([] as any)).toThrow('Invalid values');
+      expect(() => Config.packageSource(undefined)).toThrow(
+        'Invalid property: undefined'
+      );
+    });
+
+    test('should have no config file to resolve or save', async () => {
+      class Sourced extends Config {
+        protected static root = root;
+        protected static sources = [this.objectSource({ port: 80 })];
+      }
+
+      await Sourced.load();
+
+      expect(Sourced.which()).toBeUndefined();
+      await expect(Sourced.save({ port: 81 })).rejects.toThrow(ConfigError);
+      await expect(Sourced.save({ port: 81 })).rejects.toThrow(
+        'Cannot save a config loaded from sources'
+      );
+      expect(Sourced.get('port')).toBe(80);
+    });
+
+    test('should load the sources again on reload', async () => {
+      write('app.json', '{"port": 80}');
+
+      class Sourced extends Config {
+        protected static root = root;
+        protected static sources = [this.fileSource('app.json')];
+      }
+
+      const onReload = jest.fn();
+      Sourced.hook('onReload', onReload);
+
+      await Sourced.load();
+      write('app.json', '{"port": 81}');
+
+      await expect(Sourced.reload()).resolves.toEqual({ port: 81 });
+      expect(onReload).toHaveBeenCalledWith({ port: 80 }, { port: 81 });
+    });
+
+    test('should watch the sources that can be watched', async () => {
+      const stop = jest.fn();
+      let listener: () => void;
+
+      class Sourced extends Config {
+        protected static root = root;
+        protected static debounce = 0;
+        protected static sources = [
+          this.objectSource({ port: 80 }),
+          {
+            name: 'watched',
+            load: () => ({ debug: true }),
+            watch: (callback: () => void) => {
+              listener = callback;
+              return stop;
+            },
+          },
+        ];
+      }
+
+      expect(() => Sourced.watch()).toThrow('Nothing to watch');
+
+      await Sourced.load();
+
+      const changed = new Promise((resolve) =>
+        Sourced.watch().on('change', resolve)
+      );
+
+      listener();
+      await expect(changed).resolves.toEqual({ port: 80, debug: true });
+
+      Sourced.unwatch();
+      expect(stop).toHaveBeenCalledTimes(1);
+    });
+
+    test('should close the watched sources if a source cannot be watched', async () => {
+      const stop = jest.fn();
+
+      class Sourced extends Config {
+        protected static root = root;
+        protected static sources = [
+          { name: 'first', load: () => ({ port: 80 }), watch: () => stop },
+          {
+            name: 'second',
+            load: () => ({ debug: true }),
+            watch: (): (() => void) => {
+              throw new Error('Watch limit reached');
+            },
+          },
+        ];
+      }
+
+      await Sourced.load();
+
+      expect(() => Sourced.watch()).toThrow(
+        new ConfigError('Cannot watch the config: Watch limit reached')
+      );
+
+      expect(stop).toHaveBeenCalledTimes(1);
+      expect((Sourced as any).emitter).toBeUndefined();
+      expect((Sourced as any).watchers).toBeUndefined();
+    });
+
+    test('should watch the directory of file sources', () => {
+      const close = jest.fn();
+      const listener = jest.fn();
+
+      watch.mockReturnValue({ close, on: jest.fn().mockReturnThis() });
+
+      class Sourced extends Config {
+        protected static root = root;
+      }
+
+      const stop = Sourced.fileSource('app.json').watch(listener);
+      const [directory, callback] = watch.mock.calls[0];
+
+      expect(directory).toBe(root);
+
+      callback('change', 'other.json');
+      callback('change', 'app.json');
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      stop();
+      expect(close).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('reload JS files', () => {
+    let root: string;
+
+    const write = (name: string, content: string) =>
+      fs.writeFileSync(join(root, name), content);
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(join(tmpdir(), 'megaorm-config-'));
+
+      (Config as any).file = 'config.js';
+      (Config as any).config = undefined;
+      (Config as any).default = undefined;
+      (Config as any).validators = undefined;
+
+      Config.resolveSync = jest.fn().mockReturnValue(root);
+      Config.exist = jest.fn().mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('should read the rewritten JS config on reload', async () => {
+      write('config.js', 'module.exports = { port: 1 };');
+
+      // Validators must not see the previously validated object
+      Config.register((config) => {
+        config.visits = (config.visits || 0) + 1;
+        return config;
+      });
+
+      await expect(Config.load()).resolves.toEqual({ port: 1, visits: 1 });
+
+      write('config.js', 'module.exports = { port: 2 };');
+
+      await expect(Config.reload()).resolves.toEqual({ port: 2, visits: 1 });
+      await expect(Config.load()).resolves.toEqual({ port: 2, visits: 1 });
+    });
+
+    test('should read the rewritten local imports on reload', async () => {
+      write(
+        'config.js',
+        [
+          "const { join } = require('path');",
+          "const db = require('./db');",
+          "const hosts = require('./hosts.json');",
+          "module.exports = { db, hosts, path: join('a', 'b') };",
+        ].join('\n')
+      );
+
+      write('db.js', "module.exports = { host: 'a' };");
+      write('hosts.json', '["a"]');
+
+      await expect(Config.load()).resolves.toEqual({
+        db: { host: 'a' },
+        hosts: ['a'],
+        path: join('a', 'b'),
+      });
+
+      write('db.js', "module.exports = { host: 'b' };");
+      write('hosts.json', '["a", "b"]');
+
+      await expect(Config.reload()).resolves.toEqual({
+        db: { host: 'b' },
+        hosts: ['a', 'b'],
+        path: join('a', 'b'),
+      });
+    });
+
+    test('should resolve circular local imports on reload', async () => {
+      write(
+        'config.js',
+        "exports.name = 'config'; exports.pool = require('./pool').name;"
+      );
+
+      write(
+        'pool.js',
+        "exports.name = 'pool'; exports.config = require('./config').name;"
+      );
+
+      await expect(Config.load()).resolves.toEqual({
+        name: 'config',
+        pool: 'pool',
+      });
+
+      write(
+        'pool.js',
+        "exports.name = 'main'; exports.config = require('./config').name;"
+      );
+
+      await expect(Config.reload()).resolves.toEqual({
+        name: 'config',
+        pool: 'main',
+      });
+    });
+
+    test('should reject with ConfigError and keep the last config if the rewritten file is invalid', async () => {
+      write('config.js', 'module.exports = { port: 1 };');
+      await Config.load();
+
+      write('config.js', 'module.exports = {');
+
+      await expect(Config.reload()).rejects.toThrow(ConfigError);
+      await expect(Config.load()).resolves.toEqual({ port: 1 });
+    });
+
+    test('should watch the local files included by the JS config', async () => {
+      const watch = fs.watch as unknown as jest.Mock;
+      const schedule = jest.spyOn(Config as any, 'schedule');
+      const listeners = new Map<
+        string,
+        (event: string, name: string) => void
+      >();
+
+      watch.mockImplementation(((directory: string, listener: any) => {
+        listeners.set(directory, listener);
+        return { close: jest.fn(), on: jest.fn().mockReturnThis() };
+      }) as any);
+
+      fs.mkdirSync(join(root, 'lib'));
+      write('config.js', 'module.exports = { port: 1 };');
+      write(join('lib', 'db.js'), "module.exports = require('./hosts.json');");
+      write(join('lib', 'hosts.json'), '{ "host": "a" }');
+
+      try {
+        await Config.load();
+
+        // Local imports are recorded when the file is evaluated again
+        write('config.js', "module.exports = require('./lib/db');");
+        await expect(Config.reload()).resolves.toEqual({ host: 'a' });
+
+        Config.watch();
+
+        expect(watch.mock.calls.map(([directory]) => directory)).toEqual([
+          root,
+          join(root, 'lib'),
+        ]);
+
+        listeners.get(join(root, 'lib'))('change', 'other.js'); // Ignored
+        expect(schedule).not.toHaveBeenCalled();
+
+        listeners.get(join(root, 'lib'))('change', 'hosts.json');
+        expect(schedule).toHaveBeenCalledTimes(1);
+      } finally {
+        Config.unwatch();
+        schedule.mockRestore();
+        watch.mockReset();
+      }
+    });
+  });
+
+  describe('reload', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (Config as any).loaded = undefined; // Reset loaded file path
+    });
+
+    test('should reload JS config successfully', async () => {
+      const mockPath = 'config.js';
+      const mockConfig = { key: 'value' };
+      (Config as any).loaded = mockPath;
+
+      // Mocking the loadJS method using jest.fn()
+      Config.loadJS = jest.fn().mockResolvedValue(mockConfig);
+
+      const config = await Config.reload<typeof mockConfig>();
+
+      expect(config).toEqual(mockConfig);
+      expect(Config.loadJS).toHaveBeenCalledWith(mockPath);
+    });
+
+    test('should reload JSON config successfully', async () => {
+      const mockPath = 'config.json';
+      const mockConfig = { key: 'value' };
+      (Config as any).loaded = mockPath;
+
+      // Mocking the loadJSON method using jest.fn()
+      Config.loadJSON = jest.fn().mockResolvedValue(mockConfig);
+
+      const config = await Config.reload<typeof mockConfig>();
+
+      expect(config).toEqual(mockConfig);
+      expect(Config.loadJSON).toHaveBeenCalledWith(mockPath);
+    });
+
+    test('should reload MJS and CJS config with loadJS', async () => {
+      Config.loadJS = jest.fn().mockResolvedValue({});
+
+      (Config as any).loaded = 'config.mjs';
+      await Config.reload();
+      expect(Config.loadJS).toHaveBeenCalledWith('config.mjs');
+
+      (Config as any).loaded = 'config.cjs';
+      await Config.reload();
+      expect(Config.loadJS).toHaveBeenCalledWith('config.cjs');
+    });
+
+    test('should reload TS config successfully', async () => {
+      (Config as any).loaded = 'config.ts';
+      Config.loadTS = jest.fn().mockResolvedValue({ key: 'value' });
+
+      await expect(Config.reload()).resolves.toEqual({ key: 'value' });
+      expect(Config.loadTS).toHaveBeenCalledWith('config.ts');
+    });
+
+    test('should reload YAML config successfully', async () => {
+      Config.loadYAML = jest.fn().mockResolvedValue({ key: 'value' });
+
+      (Config as any).loaded = 'config.yaml';
+      await expect(Config.reload()).resolves.toEqual({ key: 'value' });
+      expect(Config.loadYAML).toHaveBeenCalledWith('config.yaml');
+
+      (Config as any).loaded = 'config.yml';
+      await expect(Config.reload()).resolves.toEqual({ key: 'value' });
+      expect(Config.loadYAML).toHaveBeenCalledWith('config.yml');
+    });
+
+    test('should reload TOML config successfully', async () => {
+      (Config as any).loaded = 'config.toml';
+      Config.loadTOML = jest.fn().mockResolvedValue({ key: 'value' });
+
+      await expect(Config.reload()).resolves.toEqual({ key: 'value' });
+      expect(Config.loadTOML).toHaveBeenCalledWith('config.toml');
+    });
+
+    test('should reject with ConfigError if no file is loaded', async () => {
+      (Config as any).loaded = undefined;
+
+      await expect(Config.reload()).rejects.toThrow(ConfigError);
+      await expect(Config.reload()).rejects.toThrow('Nothing to reload');
+    });
+
+    test('should share the in-flight reload between concurrent calls', async () => {
+      let resolve: (config: unknown) => void;
+      Config.loadJSON = jest.fn(() => new Promise((r) => (resolve = r)));
+      (Config as any).loaded = 'config.json';
+
+      const first = Config.reload();
+      const second = Config.reload();
+
+      expect(second).toBe(first);
+
+      await Promise.resolve(); // Let the reload start
+      resolve({ key: 'value' });
+
+      await expect(first).resolves.toEqual({ key: 'value' });
+      expect(Config.loadJSON).toHaveBeenCalledTimes(1);
+    });
+
+    test('should wait for the in-flight load before reloading', async () => {
+      const resolvers: Array<(config: unknown) => void> = [];
+
+      Config.resolveSync = jest.fn().mockReturnValue('root');
+      Config.loadJSON = jest.fn(
+        (path) =>
+          new Promise((resolve) => {
+            resolvers.push((config) => {
+              (Config as any).loaded = path;
+              resolve(config);
+            });
+          })
+      );
+
+      (Config as any).file = 'config.json';
+      (Config as any).config = undefined;
+
+      const load = Config.load();
+      const reload = Config.reload();
+
+      await Promise.resolve();
+      expect(Config.loadJSON).toHaveBeenCalledTimes(1); // Not racing the load
+
+      resolvers[0]({ key: 'loaded' });
+      await expect(load).resolves.toEqual({ key: 'loaded' });
+
+      await Promise.resolve();
+      expect(Config.loadJSON).toHaveBeenCalledTimes(2);
+      expect(Config.loadJSON).toHaveBeenLastCalledWith(
+        join('root', 'config.json')
+      );
+
+      resolvers[1]({ key: 'reloaded' });
+      await expect(reload).resolves.toEqual({ key: 'reloaded' });
+    });
+
+    test('should reject with ConfigError if file extension is unsupported', async () => {
       const mockPath = 'config.txt';
       (Config as any).loaded = mockPath;
 
@@ -562,6 +3129,89 @@ describe('Config', () => {
       expect(Config.loadJSON).toHaveBeenCalledWith(join('root', mockPath));
     });
 
+    test('should load TS config successfully', async () => {
+      (Config as any).file = 'config.ts';
+
+      Config.loadTS = jest.fn().mockResolvedValue({ key: 'value' });
+      Config.resolveSync = jest.fn().mockReturnValue('root');
+
+      await expect(Config.load()).resolves.toEqual({ key: 'value' });
+      expect(Config.loadTS).toHaveBeenCalledWith(join('root', 'config.ts'));
+    });
+
+    test('should load YAML config successfully', async () => {
+      (Config as any).file = 'config.yaml';
+
+      Config.loadYAML = jest.fn().mockResolvedValue({ key: 'value' });
+      Config.resolveSync = jest.fn().mockReturnValue('root');
+
+      await expect(Config.load()).resolves.toEqual({ key: 'value' });
+      expect(Config.loadYAML).toHaveBeenCalledWith(join('root', 'config.yaml'));
+    });
+
+    test('should load JSONC and JSON5 config successfully', async () => {
+      Config.loadJSON = jest.fn().mockResolvedValue({ key: 'value' });
+      Config.resolveSync = jest.fn().mockReturnValue('root');
+
+      (Config as any).file = 'config.jsonc';
+      await expect(Config.load()).resolves.toEqual({ key: 'value' });
+      expect(Config.loadJSON).toHaveBeenCalledWith(
+        join('root', 'config.jsonc')
+      );
+
+      (Config as any).file = 'config.json5';
+      await expect(Config.load()).resolves.toEqual({ key: 'value' });
+      expect(Config.loadJSON).toHaveBeenCalledWith(
+        join('root', 'config.json5')
+      );
+    });
+
+    test('should share the in-flight load between concurrent calls', async () => {
+      let resolve: (config: unknown) => void;
+
+      (Config as any).file = 'config.json';
+      Config.resolveSync = jest.fn().mockReturnValue('root');
+      Config.loadJSON = jest.fn(() => new Promise((r) => (resolve = r)));
+
+      const first = Config.load();
+      const second = Config.load();
+
+      expect(second).toBe(first);
+      resolve({ key: 'value' });
+
+      await expect(first).resolves.toEqual({ key: 'value' });
+      expect(Config.loadJSON).toHaveBeenCalledTimes(1);
+    });
+
+    test('should clear the in-flight load if loading fails', async () => {
+      (Config as any).file = 'config.json';
+      Config.resolveSync = jest.fn().mockReturnValue('root');
+      Config.loadJSON = jest
+        .fn()
+        .mockRejectedValueOnce(new ConfigError('Invalid config'))
+        .mockResolvedValueOnce({ key: 'value' });
+
+      const first = Config.load();
+      const second = Config.load();
+
+      await expect(first).rejects.toThrow('Invalid config');
+      await expect(second).rejects.toThrow('Invalid config');
+
+      // The next call retries
+      await expect(Config.load()).resolves.toEqual({ key: 'value' });
+      expect(Config.loadJSON).toHaveBeenCalledTimes(2);
+    });
+
+    test('should load TOML config successfully', async () => {
+      (Config as any).file = 'config.toml';
+
+      Config.loadTOML = jest.fn().mockResolvedValue({ key: 'value' });
+      Config.resolveSync = jest.fn().mockReturnValue('root');
+
+      await expect(Config.load()).resolves.toEqual({ key: 'value' });
+      expect(Config.loadTOML).toHaveBeenCalledWith(join('root', 'config.toml'));
+    });
+
     test('should reject with ConfigError if file extension is unsupported', async () => {
       const mockPath = 'config.txt';
       (Config as any).file = mockPath;
@@ -572,4 +3222,553 @@ describe('Config', () => {
       );
     });
   });
+
+  describe('discovery', () => {
+    const root = join('project');
+    const existsSync = fs.existsSync as jest.Mock;
+    let emitWarning: jest.SpyInstance;
+
+    const exist = (...paths: Array<string>) =>
+      existsSync.mockImplementation((path: string) => paths.includes(path));
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      emitWarning = jest
+        .spyOn(process, 'emitWarning')
+        .mockImplementation(() => {});
+
+      (Config as any).config = undefined;
+      (Config as any).default = undefined;
+      (Config as any).candidates = [
+        'mega.config.js',
+        'mega.config.json',
+        '.megarc',
+        'config/mega.config.js',
+      ];
+
+      Config.resolveSync = jest.fn().mockReturnValue(root);
+      Config.loadJS = jest.fn().mockResolvedValue({ format: 'js' });
+      Config.loadJSON = jest.fn().mockResolvedValue({ format: 'json' });
+      Config.loadYAML = jest.fn().mockResolvedValue({ format: 'rc' });
+    });
+
+    afterEach(() => {
+      emitWarning.mockRestore();
+      existsSync.mockReset();
+      (Config as any).candidates = undefined;
+      (Config as any).upward = undefined;
+      (Config as any).property = undefined;
+    });
+
+    test('should load the first existing candidate', async () => {
+      exist(join(root, '.megarc'), join(root, 'config', 'mega.config.js'));
+
+      await expect(Config.load()).resolves.toEqual({ format: 'rc' });
+      expect(Config.loadYAML).toHaveBeenCalledWith(join(root, '.megarc'));
+      expect(Config.loadJS).not.toHaveBeenCalled();
+    });
+
+    test('should search the default candidates if no file is set', async () => {
+      const candidates = [
+        'mega.config.js',
+        'mega.config.json',
+        '.megarc',
+        '.megarc.json',
+        'config/mega.config.js',
+        'config/mega.config.json',
+        'config/.megarc',
+        'config/.megarc.json',
+      ];
+
+      (Config as any).candidates = undefined;
+      (Config as any).file = undefined;
+      exist(...candidates.map((candidate) => join(root, candidate)));
+
+      await expect(Config.load()).resolves.toEqual({ format: 'js' });
+      expect(emitWarning).toHaveBeenCalledWith(
+        `Multiple config files found in ${root}: ${candidates.join(
+          ', '
+        )}. Using mega.config.js`,
+        'ConfigWarning'
+      );
+
+      (Config as any).config = undefined;
+      exist(join(root, 'config', '.megarc.json'));
+
+      await expect(Config.load()).resolves.toEqual({ format: 'json' });
+      expect(Config.loadJSON).toHaveBeenLastCalledWith(
+        join(root, 'config', '.megarc.json')
+      );
+    });
+
+    test('should use the megaorm key of package.json with the default candidates', async () => {
+      const dir = fs.mkdtempSync(join(tmpdir(), 'megaorm-config-'));
+      const pkg = join(dir, 'package.json');
+
+      fs.writeFileSync(pkg, '{"name": "app", "megaorm": {"a": 1}}');
+      Config.resolveSync = jest.fn().mockReturnValue(dir);
+      (Config as any).candidates = undefined;
+      (Config as any).file = undefined;
+      exist(pkg, join(dir, 'config', 'mega.config.js'));
+
+      await expect(Config.load()).resolves.toEqual({ format: 'json' });
+      expect(Config.loadJSON).toHaveBeenCalledWith(pkg);
+
+      // Without the key, package.json is skipped
+      fs.writeFileSync(pkg, '{"name": "app"}');
+      (Config as any).config = undefined;
+
+      await expect(Config.load()).resolves.toEqual({ format: 'js' });
+      expect(Config.loadJS).toHaveBeenCalledWith(
+        join(dir, 'config', 'mega.config.js')
+      );
+
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should warn if several candidates exist in the same directory', async () => {
+      exist(join(root, 'mega.config.json'), join(root, '.megarc'));
+
+      await expect(Config.load()).resolves.toEqual({ format: 'json' });
+      expect(emitWarning).toHaveBeenCalledWith(
+        `Multiple config files found in ${root}: mega.config.json, .megarc. Using mega.config.json`,
+        'ConfigWarning'
+      );
+    });
+
+    test('should walk up from the working directory to the project root', async () => {
+      const cwd = jest
+        .spyOn(process, 'cwd')
+        .mockReturnValue(join(root, 'packages', 'api'));
+
+      (Config as any).upward = true;
+      exist(
+        join(root, 'packages', 'mega.config.json'),
+        join(root, 'mega.config.js')
+      );
+
+      await expect(Config.load()).resolves.toEqual({ format: 'json' });
+      expect(Config.loadJSON).toHaveBeenCalledWith(
+        join(root, 'packages', 'mega.config.json')
+      );
+      expect(emitWarning).not.toHaveBeenCalled();
+      cwd.mockRestore();
+    });
+
+    test('should only search the project root by default', async () => {
+      exist(join(process.cwd(), 'mega.config.json'), join(root, '.megarc'));
+
+      await expect(Config.load()).resolves.toEqual({ format: 'rc' });
+    });
+
+    test('should use package.json only if it has the property', async () => {
+      const dir = fs.mkdtempSync(join(tmpdir(), 'megaorm-'));
+      const pkg = join(dir, 'package.json');
+
+      Config.resolveSync = jest.fn().mockReturnValue(dir);
+      (Config as any).candidates = ['package.json', '.megarc'];
+      exist(pkg, join(dir, '.megarc'));
+
+      try {
+        fs.writeFileSync(pkg, '{"name": "app"}');
+        (Config as any).property = 'megaorm';
+        await expect(Config.load()).resolves.toEqual({ format: 'rc' });
+
+        (Config as any).config = undefined;
+        fs.writeFileSync(pkg, '{"name": "app", "megaorm": {}}');
+        await expect(Config.load()).resolves.toEqual({ format: 'json' });
+        expect(Config.loadJSON).toHaveBeenCalledWith(pkg);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    test('should reject with the searched candidates if none exists', async () => {
+      exist();
+
+      await expect(Config.load()).rejects.toThrow(
+        new ConfigError(
+          `No config file found in ${root}, searched: mega.config.js, mega.config.json, .megarc, config/mega.config.js`
+        )
+      );
+    });
+
+    test('should fall back to the default config if no candidate exists', async () => {
+      (Config as any).default = { format: 'default' };
+      exist();
+
+      await Config.load();
+      expect(Config.loadJS).toHaveBeenCalledWith(join(root, 'mega.config.js'));
+    });
+
+    test('should name the discovered config file in errors', async () => {
+      exist(join(root, '.megarc'));
+      Config.loadYAML = jest.fn(() =>
+        Promise.reject(new ConfigError('Validator #1 failed: Invalid'))
+      );
+
+      await expect(Config.load()).rejects.toThrow(
+        `Validator #1 failed: Invalid\n\nConfig file: ${join(root, '.megarc')}`
+      );
+
+      // The default candidates are discovered too
+      (Config as any).candidates = undefined;
+      (Config as any).file = undefined;
+
+      await expect(Config.load()).rejects.toThrow(
+        `Validator #1 failed: Invalid\n\nConfig file: ${join(root, '.megarc')}`
+      );
+    });
+
+    test('should reject invalid candidates', async () => {
+      (Config as any).candidates = [];
+      await expect(Config.load()).rejects.toThrow('Invalid candidates: ');
+    });
+  });
+
+  describe('watch', () => {
+    const watch = fs.watch as unknown as jest.Mock;
+    const flush = () => new Promise(jest.requireActual('timers').setImmediate);
+
+    let listeners: Array<(event: string, name: string) => void>;
+    let watchers: Array<{ close: jest.Mock; on: jest.Mock }>;
+    let reload: jest.SpyInstance;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      listeners = [];
+      watchers = [];
+
+      watch.mockImplementation(((directory: string, listener: any) => {
+        const watcher = { close: jest.fn(), on: jest.fn().mockReturnThis() };
+        listeners.push(listener);
+        watchers.push(watcher);
+        return watcher;
+      }) as any);
+
+      reload = jest.spyOn(Config, 'reload');
+      (Config as any).loaded = join('root', 'config.json');
+      (Config as any).config = { key: 'old' };
+      (Config as any).environment = undefined;
+      (Config as any).debounce = undefined;
+    });
+
+    afterEach(() => {
+      Config.unwatch();
+      reload.mockRestore();
+      jest.clearAllMocks();
+      jest.useRealTimers();
+    });
+
+    test('should throw ConfigError if no file is loaded', () => {
+      (Config as any).loaded = undefined;
+
+      expect(() => Config.watch()).toThrow(ConfigError);
+      expect(() => Config.watch()).toThrow('Nothing to watch');
+    });
+
+    test('should watch the directories of the config file and its environment sibling', () => {
+      (Config as any).environment = 'production';
+
+      const emitter = Config.watch();
+
+      expect(watch).toHaveBeenCalledTimes(1);
+      expect(watch).toHaveBeenCalledWith('root', expect.any(Function));
+      expect(Config.watch()).toBe(emitter); // Already watching
+      expect(watch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should throw ConfigError and stay unwatched if a directory cannot be watched', () => {
+      watch.mockImplementationOnce(() => {
+        throw Object.assign(new Error('no such file or directory'), {
+          code: 'ENOENT',
+        });
+      });
+
+      expect(() => Config.watch()).toThrow(
+        new ConfigError('Cannot watch the config: no such file or directory')
+      );
+
+      expect((Config as any).emitter).toBeUndefined();
+      expect((Config as any).watchers).toBeUndefined();
+
+      // Watching again is not blocked by the failure
+      Config.watch();
+      expect(watch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should debounce changes and emit the new and previous config', async () => {
+      reload.mockImplementation(() => {
+        (Config as any).config = { key: 'new' };
+        return Promise.resolve({ key: 'new' });
+      });
+
+      (Config as any).environment = 'production';
+      const change = jest.fn();
+      Config.watch().on('change', change);
+
+      listeners[0]('change', 'other.json'); // Ignored
+      listeners[0]('change', 'config.json');
+      jest.advanceTimersByTime(50);
+      listeners[0]('rename', 'config.production.json');
+      jest.advanceTimersByTime(99);
+
+      expect(reload).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1);
+      await flush();
+
+      expect(reload).toHaveBeenCalledTimes(1);
+      expect(change).toHaveBeenCalledWith({ key: 'new' }, { key: 'old' });
+    });
+
+    test('should emit an error and keep the last good config if the reload fails', async () => {
+      reload.mockRejectedValue(new ConfigError('Invalid config'));
+      (Config as any).debounce = 10;
+
+      const error = jest.fn();
+      const change = jest.fn();
+      Config.watch().on('change', change).on('error', error);
+
+      listeners[0]('change', 'config.json');
+      jest.advanceTimersByTime(10);
+      await flush();
+
+      expect(error).toHaveBeenCalledWith(new ConfigError('Invalid config'));
+      expect(change).not.toHaveBeenCalled();
+      expect((Config as any).config).toEqual({ key: 'old' });
+    });
+
+    test('should not throw if the reload fails without an error listener', async () => {
+      reload.mockRejectedValue(new ConfigError('Invalid config'));
+
+      Config.watch();
+      listeners[0]('change', 'config.json');
+      jest.advanceTimersByTime(100);
+      await flush();
+
+      expect(reload).toHaveBeenCalledTimes(1);
+    });
+
+    test('should release all watchers and cancel pending reloads', () => {
+      const change = jest.fn();
+      Config.watch().on('change', change);
+
+      listeners[0]('change', 'config.json');
+      Config.unwatch();
+      jest.advanceTimersByTime(100);
+
+      expect(watchers[0].close).toHaveBeenCalled();
+      expect(reload).not.toHaveBeenCalled();
+      expect((Config as any).emitter).toBeUndefined();
+      expect(() => Config.unwatch()).not.toThrow();
+    });
+  });
+
+  describe('get', () => {
+    interface Shape {
+      paths: { models: string; seeders?: string };
+      hosts: Array<string>;
+      cluster?: { pool: { max: number } };
+    }
+
+    class TypedConfig extends Config {
+      declare static shape: Shape;
+    }
+
+    beforeEach(() => {
+      (Config as any).config = {
+        paths: { models: 'src/models', seeders: null },
+        hosts: ['a', 'b'],
+        cluster: { pool: { max: 10 } },
+      };
+    });
+
+    afterEach(() => {
+      (Config as any).config = undefined;
+    });
+
+    test('should return the value at a key path', () => {
+      expect(Config.get('paths.models')).toBe('src/models');
+      expect(Config.get('cluster')).toEqual({ pool: { max: 10 } });
+      expect(Config.get('hosts.1')).toBe('b');
+    });
+
+    test('should return the fallback for missing values', () => {
+      expect(Config.get('paths.commands')).toBeUndefined();
+      expect(Config.get('paths.commands', 'commands')).toBe('commands');
+      expect(Config.get('paths.seeders', 'seeders')).toBe('seeders');
+      expect(Config.get('paths.models.length', 0)).toBe(0);
+      expect(Config.get('toString', 'none')).toBe('none');
+    });
+
+    test('should type values using the declared shape', () => {
+      (TypedConfig as any).config = (Config as any).config;
+
+      const models: string = TypedConfig.get('paths.models');
+      const seeders: string = TypedConfig.get('paths.seeders', 'seeders');
+      const max: number = TypedConfig.get('cluster.pool.max');
+      const hosts: Array<string> = TypedConfig.get('hosts');
+
+      // @ts-expect-error unknown key paths are rejected
+      TypedConfig.get('paths.unknown');
+
+      expect([models, seeders, max, hosts]).toEqual([
+        'src/models',
+        'seeders',
+        10,
+        ['a', 'b'],
+      ]);
+    });
+
+    test('should reject invalid key paths', () => {
+      expect(() => Config.get('')).toThrow('Invalid key path: ');
+      expect(() => Config.get(1 as any)).toThrow('Invalid key path: 1');
+    });
+
+    test('should throw if nothing is loaded', () => {
+      (Config as any).config = undefined;
+
+      expect(() => Config.get('paths.models')).toThrow(ConfigError);
+      expect(() => Config.get('paths.models')).toThrow(
+        'Cannot access "paths.models" before the config is loaded, call load() first'
+      );
+    });
+  });
+
+  describe('has', () => {
+    beforeEach(() => {
+      (Config as any).config = {
+        paths: { models: 'src/models', seeders: null, commands: undefined },
+      };
+    });
+
+    afterEach(() => {
+      (Config as any).config = undefined;
+    });
+
+    test('should check whether a key path has a value', () => {
+      expect(Config.has('paths')).toBe(true);
+      expect(Config.has('paths.models')).toBe(true);
+      expect(Config.has('paths.seeders')).toBe(true);
+      expect(Config.has('paths.commands')).toBe(false);
+      expect(Config.has('paths.models.length')).toBe(false);
+      expect(Config.has('cluster')).toBe(false);
+    });
+
+    test('should throw if nothing is loaded', () => {
+      (Config as any).config = undefined;
+      expect(() => Config.has('paths')).toThrow(ConfigError);
+    });
+  });
+
+  describe('require', () => {
+    beforeEach(() => {
+      (Config as any).config = {
+        paths: { models: 'src/models', seeders: null },
+      };
+    });
+
+    afterEach(() => {
+      (Config as any).config = undefined;
+    });
+
+    test('should return the value at a key path', () => {
+      expect(Config.require('paths.models')).toBe('src/models');
+    });
+
+    test('should throw a ConfigError naming the missing key path', () => {
+      expect(() => Config.require('paths.seeders')).toThrow(ConfigError);
+      expect(() => Config.require('paths.seeders')).toThrow(
+        'Missing required config value: paths.seeders'
+      );
+      expect(() => Config.require('cluster.pool')).toThrow(
+        'Missing required config value: cluster.pool'
+      );
+    });
+
+    test('should throw if nothing is loaded', () => {
+      (Config as any).config = undefined;
+      expect(() => Config.require('paths.models')).toThrow(
+        'Cannot access "paths.models" before the config is loaded, call load() first'
+      );
+    });
+  });
+
+  describe('snapshot', () => {
+    afterEach(() => {
+      (Config as any).config = undefined;
+    });
+
+    test('should return an independent deep copy of the config', () => {
+      class Cluster {}
+      const cluster = new Cluster();
+      const config = { paths: { models: 'models' }, hosts: ['a'], cluster };
+      (Config as any).config = config;
+
+      const snapshot = Config.snapshot<any>();
+      snapshot.paths.models = 'src/models';
+      snapshot.hosts.push('b');
+
+      expect(snapshot).not.toBe(config);
+      expect(snapshot.cluster).toBe(cluster);
+      expect(config).toEqual({
+        paths: { models: 'models' },
+        hosts: ['a'],
+        cluster,
+      });
+    });
+
+    test('should return a mutable copy of a frozen config', () => {
+      (Config as any).config = utils.deepFreeze({
+        paths: { models: 'models' },
+      });
+
+      const snapshot = Config.snapshot<any>();
+      snapshot.paths.models = 'src/models';
+
+      expect(Object.isFrozen(snapshot.paths)).toBe(false);
+      expect(snapshot.paths.models).toBe('src/models');
+    });
+
+    test('should throw if nothing is loaded', () => {
+      expect(() => Config.snapshot()).toThrow(
+        new ConfigError(
+          'Cannot take a snapshot before the config is loaded, call load() first'
+        )
+      );
+    });
+  });
+
+  describe('dump', () => {
+    afterEach(() => {
+      (Config as any).config = undefined;
+      (Config as any).secrets = undefined;
+      jest.restoreAllMocks();
+    });
+
+    test('should print the config with secrets redacted', () => {
+      const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+      (Config as any).secrets = ['*.password'];
+      (Config as any).config = {
+        db: { host: 'localhost', password: 'hunter2' },
+      };
+
+      const text = Config.dump();
+
+      expect(text).toBe(
+        inspect({ db: { host: 'localhost', password: '[REDACTED]' } })
+      );
+      expect(log).toHaveBeenCalledWith(text);
+    });
+
+    test('should throw if nothing is loaded', () => {
+      expect(() => Config.dump()).toThrow(
+        new ConfigError(
+          'Cannot dump the config before the config is loaded, call load() first'
+        )
+      );
+    });
+  });
 });
@@ -0,0 +1,122 @@
+import { parse } from '../src/json5';
+import { ParseError } from '../src/utils';
+
+describe('json5', () => {
+  describe('parse', () => {
+    test('should parse standard JSON in strict mode', () => {
+      const source = JSON.stringify({
+        name: 'main',
+        port: 3306,
+        ratio: -1.5e3,
+        debug: true,
+        host: null,
+        hosts: ['a', { b: [] }],
+        text: 'tab\t"quoted" é',
+      });
+
+      expect(parse(source, true)).toEqual(JSON.parse(source));
+    });
+
+    test('should reject JSON5 syntax in strict mode', () => {
+      const errors: Array<[string, string, number, number]> = [
+        ['{"a": 1,}', 'Trailing commas are not allowed', 1, 8],
+        ['[1,]', 'Trailing commas are not allowed', 1, 3],
+        ['{a: 1}', 'Expected a key, got "a"', 1, 2],
+        ["{'a': 1}", 'Expected a key, got "\'"', 1, 2],
+        ['// comment\n{}', 'Unexpected character "/"', 1, 1],
+        ['.5', 'Unexpected character "."', 1, 1],
+        ['"\\x41"', 'Invalid escape sequence', 1, 2],
+      ];
+
+      errors.forEach(([source, message, line, column]) => {
+        expect(() => parse(source, true)).toThrow(message);
+        expect(() => parse(source, true)).toThrow(
+          expect.objectContaining({ line, column })
+        );
+      });
+    });
+
+    test('should parse comments, trailing commas, unquoted keys and single quotes', () => {
+      const source = [
+        '// Database config',
+        '{',
+        '  /* block',
+        '     comment */',
+        "  name: 'main',",
+        '  $port: 3306,',
+        "  'quoted key': 'it\\'s',",
+        '  hosts: [',
+        '    "a",',
+        '    "b",',
+        '  ],',
+        '}',
+      ].join('\n');
+
+      expect(parse(source)).toEqual({
+        name: 'main',
+        $port: 3306,
+        'quoted key': "it's",
+        hosts: ['a', 'b'],
+      });
+    });
+
+    test('should parse JSON5 numbers and strings', () => {
+      const source = [
+        '{',
+        '  hex: 0x1F,',
+        '  lead: .5,',
+        '  trail: 5.,',
+        '  plus: +1,',
+        '  max: Infinity,',
+        '  min: -Infinity,',
+        "  text: 'line \\",
+        "continued \\x41',",
+        '}',
+      ].join('\n');
+
+      expect(parse(source)).toEqual({
+        hex: 31,
+        lead: 0.5,
+        trail: 5,
+        plus: 1,
+        max: Infinity,
+        min: -Infinity,
+        text: 'line continued A',
+      });
+
+      expect(parse('NaN')).toBeNaN();
+    });
+
+    test('should define __proto__ keys as own properties', () => {
+      const config = parse('{"__proto__": {"polluted": true}}') as any;
+
+      expect(Object.getPrototypeOf(config)).toBe(Object.prototype);
+      expect(config.polluted).toBeUndefined();
+      expect(Object.keys(config)).toEqual(['__proto__']);
+    });
+
+    test('should throw ParseError with the line and column', () => {
+      const errors: Array<[string, string, number, number]> = [
+        ['{\n  "a" 1\n}', 'Expected ":"', 2, 7],
+        ['[1 2]', 'Expected "," or "]"', 1, 4],
+        ['{"a": 1 "b": 2}', 'Expected "," or "}"', 1, 9],
+        ['{"a": "open\n}', 'Unterminated string', 1, 7],
+        ['/* open', 'Unterminated comment', 1, 1],
+        ['{"a": tru}', 'Unexpected character "t"', 1, 7],
+        ['[1, 2', 'Unexpected end of input', 1, 6],
+        ['{} {}', 'Unexpected character "{"', 1, 4],
+        ['"\\u12"', 'Invalid unicode escape', 1, 2],
+      ];
+
+      errors.forEach(([source, message, line, column]) => {
+        try {
+          parse(source);
+          throw new Error(`Expected ${JSON.stringify(source)} to fail`);
+        } catch (error) {
+          expect(error).toBeInstanceOf(ParseError);
+          expect(error).toMatchObject({ message, line, column });
+        }
+      });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  changes,
+  foreign,
+  leaves,
+  line,
+  sources,
+  Trace,
+} from '../src/provenance';
+
+describe('provenance', () => {
+  describe('leaves', () => {
+    test('should list the key paths of the leaves', () => {
+      expect(
+        leaves({ a: 1, paths: { models: 'm', nested: {} }, hosts: ['h'] })
+      ).toEqual(['a', 'paths.models', 'paths.nested', 'hosts']);
+    });
+
+    test('should list the value itself below the root', () => {
+      expect(leaves('value', ['a', 'b'])).toEqual(['a.b']);
+      expect(leaves('value')).toEqual([]);
+      expect(leaves({})).toEqual([]);
+    });
+  });
+
+  describe('changes', () => {
+    test('should list the added, removed and changed leaves', () => {
+      const before = { a: 1, b: { c: 2, d: 3 }, hosts: ['x'] };
+      const after = { a: 1, b: { c: 4 }, e: 5, hosts: ['x'] };
+
+      expect(changes(before, after)).toEqual(['b.c', 'b.d', 'e']);
+    });
+
+    test('should compare arrays by content', () => {
+      expect(changes({ hosts: ['x'] }, { hosts: ['x'] })).toEqual([]);
+      expect(changes({ hosts: ['x'] }, { hosts: ['y'] })).toEqual(['hosts']);
+    });
+
+    test('should list every leaf without a previous config', () => {
+      expect(changes(undefined, { a: 1, b: { c: 2 } })).toEqual(['a', 'b.c']);
+    });
+  });
+
+  describe('sources', () => {
+    const traces: Array<Trace> = [
+      { key: 'paths.models', source: { type: 'default' } },
+      { key: 'paths.seeders', source: { type: 'default' } },
+      { key: 'paths.models', source: { type: 'file', path: 'a.json' } },
+      { key: 'paths', source: { type: 'env', name: 'MEGA_PATHS' } },
+      { key: 'debug', source: { type: 'file', path: 'a.json' } },
+    ];
+
+    test('should list the sources of a key, its parents and children in order', () => {
+      expect(sources(traces, 'paths.models').map((t) => t.source)).toEqual([
+        { type: 'default' },
+        { type: 'file', path: 'a.json' },
+        { type: 'env', name: 'MEGA_PATHS' },
+      ]);
+
+      expect(sources(traces, 'paths').map((t) => t.key)).toEqual([
+        'paths.models',
+        'paths.models',
+        'paths',
+      ]);
+    });
+
+    test('should not match keys sharing a prefix', () => {
+      expect(sources(traces, 'path')).toEqual([]);
+      expect(sources(traces, 'debug').map((t) => t.key)).toEqual(['debug']);
+    });
+  });
+
+  describe('foreign', () => {
+    test('should list the leaves last set by other sources than the file', () => {
+      const traces: Array<Trace> = [
+        { key: 'debug', source: { type: 'default' } },
+        { key: 'db.password', source: { type: 'file', path: 'a.json' } },
+        {
+          key: 'db.password',
+          source: { type: 'env', name: 'MEGA_DB__PASSWORD' },
+        },
+        { key: 'db.host', source: { type: 'file', path: 'a.prod.json' } },
+        { key: 'port', source: { type: 'file', path: 'a.json' } },
+        { key: 'port', source: { type: 'validator', name: 'checkPort' } },
+      ];
+
+      const config = {
+        debug: true,
+        db: { password: 'x', host: 'h', user: 'u' },
+        port: 80,
+        name: 'app',
+      };
+
+      expect(foreign(traces, config, 'a.json')).toEqual([
+        'debug',
+        'db.password',
+        'db.host',
+      ]);
+    });
+  });
+
+  describe('line', () => {
+    test('should find keys in JSON and YAML', () => {
+      const json =
+        '{\n  "models": "x",\n  "paths": {\n    "models": "m"\n  }\n}';
+      const yaml = 'debug: true\npaths:\n  models: m\n';
+
+      expect(line(json, 'paths.models')).toBe(4);
+      expect(line(json, 'models')).toBe(2);
+      expect(line(yaml, 'paths.models')).toBe(3);
+    });
+
+    test('should find keys in TOML tables and JavaScript', () => {
+      const toml = 'debug = true\n\n[paths]\nmodels = "m"\n';
+      const js = "module.exports = {\n  paths: { models: 'm' },\n};";
+
+      expect(line(toml, 'paths.models')).toBe(4);
+      expect(line(js, 'paths.models')).toBe(2);
+    });
+
+    test('should return undefined if a key is missing', () => {
+      expect(line('{"a": 1}', 'b')).toBeUndefined();
+      expect(line('{"a": {"b": 1}}', 'a.c')).toBeUndefined();
+    });
+  });
+});
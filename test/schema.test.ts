@@ -0,0 +1,140 @@
+import { check, validate } from '../src/schema';
+
+describe('schema', () => {
+  describe('check', () => {
+    test('should accept values matching the rule type', () => {
+      expect(check('models', { type: 'string' }, 'models', {})).toEqual([]);
+      expect(check(3306, { type: 'integer' }, 'port', {})).toEqual([]);
+      expect(check(1.5, { type: 'number' }, 'ratio', {})).toEqual([]);
+      expect(check([], { type: 'array' }, 'hosts', {})).toEqual([]);
+      expect(check({}, { type: 'object' }, 'paths', {})).toEqual([]);
+      expect(check(null, { type: 'any' }, 'any', {})).toEqual([]);
+      expect(check(1, { type: ['string', 'number'] }, 'id', {})).toEqual([]);
+    });
+
+    test('should report type mismatches with the key path', () => {
+      expect(check(1, { type: 'string' }, 'paths.models', {})).toEqual([
+        'paths.models: expected string, got number',
+      ]);
+
+      expect(check(1.5, { type: 'integer' }, 'port', {})).toEqual([
+        'port: expected integer, got number',
+      ]);
+
+      expect(check(null, { type: 'object' }, 'paths', {})).toEqual([
+        'paths: expected object, got null',
+      ]);
+
+      expect(check({}, { type: ['string', 'array'] }, 'hosts', {})).toEqual([
+        'hosts: expected string or array, got object',
+      ]);
+    });
+
+    test('should report missing required values', () => {
+      expect(check(undefined, { required: true }, 'cluster', {})).toEqual([
+        'cluster: is required',
+      ]);
+
+      expect(check(undefined, { type: 'string' }, 'name', {})).toEqual([]);
+    });
+
+    test('should report values outside the enum', () => {
+      expect(check('test', { enum: ['dev', 'prod'] }, 'mode', {})).toEqual([
+        'mode: expected one of "dev", "prod", got "test"',
+      ]);
+    });
+
+    test('should report values outside min and max', () => {
+      expect(check(0, { min: 1, max: 10 }, 'port', {})).toEqual([
+        'port: expected at least 1, got 0',
+      ]);
+
+      expect(check('abc', { max: 2 }, 'name', {})).toEqual([
+        'name: expected length at most 2, got 3',
+      ]);
+
+      expect(check([], { min: 1 }, 'hosts', {})).toEqual([
+        'hosts: expected length at least 1, got 0',
+      ]);
+    });
+
+    test('should report values that are not instances of the class', () => {
+      class Cluster {}
+
+      expect(check(new Cluster(), { instance: Cluster }, 'c', {})).toEqual([]);
+      expect(check({}, { instance: Cluster }, 'cluster', {})).toEqual([
+        'cluster: expected instance of Cluster, got object',
+      ]);
+    });
+
+    test('should check array items with their index', () => {
+      const rule = {
+        type: 'array' as const,
+        items: { type: 'string' as const },
+      };
+
+      expect(check(['a', 1, 'b', true], rule, 'hosts', {})).toEqual([
+        'hosts[1]: expected string, got number',
+        'hosts[3]: expected string, got boolean',
+      ]);
+    });
+
+    test('should run custom checks with the value and the config', () => {
+      const config = { min: 5 };
+      const rule = { check: jest.fn((value, config) => value >= config.min) };
+
+      expect(check(3, rule, 'max', config)).toEqual(['max: is invalid']);
+      expect(rule.check).toHaveBeenCalledWith(3, config);
+
+      expect(check(3, { check: () => 'must be even' }, 'n', {})).toEqual([
+        'n: must be even',
+      ]);
+
+      expect(check(4, { check: () => true }, 'n', {})).toEqual([]);
+    });
+  });
+
+  describe('validate', () => {
+    test('should report every violation at once', () => {
+      const config = { paths: { models: 1, seeders: 2 }, port: 'port' };
+
+      expect(
+        validate(config, {
+          cluster: { required: true },
+          paths: {
+            type: 'object',
+            properties: {
+              models: { type: 'string' },
+              seeders: { type: 'string' },
+            },
+          },
+          port: { type: 'integer' },
+        })
+      ).toEqual([
+        'cluster: is required',
+        'paths.models: expected string, got number',
+        'paths.seeders: expected string, got number',
+        'port: expected integer, got string',
+      ]);
+    });
+
+    test('should assign defaults to undefined keys', () => {
+      const defaults = { models: 'models' };
+      const config: any = {};
+
+      expect(
+        validate(config, {
+          paths: {
+            type: 'object',
+            default: {},
+            properties: { models: { type: 'string', default: 'models' } },
+          },
+          hosts: { default: defaults },
+        })
+      ).toEqual([]);
+
+      expect(config).toEqual({ paths: { models: 'models' }, hosts: defaults });
+      expect(config.hosts).not.toBe(defaults); // Defaults are copied
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { inspect } from 'util';
+import { conceal, isSecret, protect, redact, REDACTED } from '../src/secrets';
+
+describe('secrets', () => {
+  describe('isSecret', () => {
+    test('should match exact key paths', () => {
+      expect(isSecret(['db', 'password'], ['db.password'])).toBe(true);
+      expect(isSecret(['db', 'host'], ['db.password'])).toBe(false);
+      expect(isSecret(['db'], ['db.password'])).toBe(false);
+    });
+
+    test('should match one key with *', () => {
+      const patterns = ['*.password', 'cluster.*.secret'];
+
+      expect(isSecret(['db', 'password'], patterns)).toBe(true);
+      expect(isSecret(['cluster', 'main', 'secret'], patterns)).toBe(true);
+      expect(isSecret(['password'], patterns)).toBe(false);
+      expect(isSecret(['a', 'b', 'password'], patterns)).toBe(false);
+    });
+
+    test('should match any number of keys with **', () => {
+      const patterns = ['**.token'];
+
+      expect(isSecret(['token'], patterns)).toBe(true);
+      expect(isSecret(['api', 'github', 'token'], patterns)).toBe(true);
+      expect(isSecret(['api', 'token', 'type'], patterns)).toBe(false);
+    });
+  });
+
+  describe('redact', () => {
+    test('should return a redacted copy', () => {
+      class Cluster {}
+      const cluster = new Cluster();
+      const config = {
+        db: { host: 'localhost', password: 'hunter2' },
+        hosts: [{ token: 'a' }, { token: undefined }],
+        cluster,
+      };
+
+      expect(redact(config, ['*.password', 'hosts.*.token'])).toEqual({
+        db: { host: 'localhost', password: REDACTED },
+        hosts: [{ token: REDACTED }, { token: undefined }],
+        cluster,
+      });
+
+      expect(config.db.password).toBe('hunter2');
+    });
+
+    test('should redact whole secret objects', () => {
+      const config = { credentials: { user: 'root', password: 'hunter2' } };
+      expect(redact(config, ['credentials'])).toEqual({
+        credentials: REDACTED,
+      });
+    });
+  });
+
+  describe('conceal', () => {
+    test('should replace secret strings in messages', () => {
+      const config = { db: { password: 'hunter2' }, api: { keys: ['k1'] } };
+      const patterns = ['*.password', 'api.keys'];
+
+      expect(
+        conceal('Invalid password "hunter2", key k1', config, patterns)
+      ).toBe(`Invalid password "${REDACTED}", key ${REDACTED}`);
+    });
+
+    test('should replace secret numbers in messages', () => {
+      const config = { card: { pin: 1234 }, api: { keys: [5678] } };
+
+      expect(
+        conceal('Invalid pin 1234, key 5678', config, ['*.pin', 'api.keys'])
+      ).toBe(`Invalid pin ${REDACTED}, key ${REDACTED}`);
+    });
+
+    test('should keep messages without secrets', () => {
+      expect(conceal('Invalid host', { password: '' }, ['password'])).toBe(
+        'Invalid host'
+      );
+    });
+  });
+
+  describe('protect', () => {
+    test('should hide secrets when serialized or inspected', () => {
+      const config = {
+        db: { host: 'localhost', password: 'hunter2' },
+        paths: { models: 'models' },
+      };
+
+      protect(config, ['*.password']);
+
+      const redacted = {
+        db: { host: 'localhost', password: REDACTED },
+        paths: { models: 'models' },
+      };
+
+      expect(JSON.parse(JSON.stringify(config))).toEqual(redacted);
+      expect(JSON.parse(JSON.stringify(config.db))).toEqual(redacted.db);
+      expect(inspect(config)).toBe(inspect(redacted));
+      expect(inspect(config.db)).not.toContain('hunter2');
+    });
+
+    test('should keep the real values and keys', () => {
+      const config = { db: { password: 'hunter2' }, paths: {} };
+
+      protect(config, ['*.password']);
+
+      expect(config.db.password).toBe('hunter2');
+      expect(Object.keys(config.db)).toEqual(['password']);
+      expect(config).toEqual({ db: { password: 'hunter2' }, paths: {} });
+      expect(Object.getOwnPropertyNames(config.paths)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { parse } from '../src/toml';
+import { ParseError } from '../src/utils';
+
+describe('toml', () => {
+  describe('parse', () => {
+    test('should parse key/value pairs with typed scalars', () => {
+      const source = [
+        'name = "main"',
+        'port = 3306',
+        'big = 1_000_000',
+        'ratio = 1.5',
+        'exp = -2e-2',
+        'debug = true',
+        'hex = 0x1F',
+        'octal = 0o17',
+        'binary = 0b101',
+        'max = inf',
+        'min = -inf',
+      ].join('\n');
+
+      expect(parse(source)).toEqual({
+        name: 'main',
+        port: 3306,
+        big: 1000000,
+        ratio: 1.5,
+        exp: -0.02,
+        debug: true,
+        hex: 31,
+        octal: 15,
+        binary: 5,
+        max: Infinity,
+        min: -Infinity,
+      });
+
+      expect(parse('nan = nan').nan).toBeNaN();
+    });
+
+    test('should parse dates and times', () => {
+      const source = [
+        'offset = 1979-05-27T07:32:00-08:00',
+        'utc = 1979-05-27 07:32:00Z',
+        'local = 1979-05-27T07:32:00.5',
+        'date = 1979-05-27',
+        'time = 07:32:00',
+      ].join('\n');
+
+      expect(parse(source)).toEqual({
+        offset: new Date('1979-05-27T15:32:00Z'),
+        utc: new Date('1979-05-27T07:32:00Z'),
+        local: new Date('1979-05-27T07:32:00.500Z'),
+        date: new Date('1979-05-27T00:00:00Z'),
+        time: '07:32:00',
+      });
+    });
+
+    test('should parse strings', () => {
+      const source = [
+        'basic = "tab\\there \\u00e9 # not a comment"',
+        "literal = 'C:\\Users\\megaorm'",
+        'multi = """',
+        'line one',
+        'line two"""',
+        'trimmed = """\\',
+        '  folded \\',
+        '  text"""',
+        "raw = '''",
+        'keep \\n as is',
+        "'''",
+      ].join('\n');
+
+      expect(parse(source)).toEqual({
+        basic: 'tab\there é # not a comment',
+        literal: 'C:\\Users\\megaorm',
+        multi: 'line one\nline two',
+        trimmed: 'folded text',
+        raw: 'keep \\n as is\n',
+      });
+    });
+
+    test('should parse tables and dotted keys', () => {
+      const source = [
+        'paths.models = "src/models"',
+        '"quoted key" = 1',
+        '',
+        '[cluster]',
+        'mode = "ROUND_ROBIN"',
+        '',
+        '[cluster.pool]',
+        'max = 10',
+        '',
+        '[site."megaorm.com"]',
+        'secure = true',
+      ].join('\n');
+
+      expect(parse(source)).toEqual({
+        paths: { models: 'src/models' },
+        'quoted key': 1,
+        cluster: { mode: 'ROUND_ROBIN', pool: { max: 10 } },
+        site: { 'megaorm.com': { secure: true } },
+      });
+    });
+
+    test('should parse arrays of tables', () => {
+      const source = [
+        '[[pools]]',
+        'name = "main"',
+        '',
+        '[[pools.hosts]]',
+        'host = "a"',
+        '',
+        '[[pools]]',
+        'name = "replica"',
+      ].join('\n');
+
+      expect(parse(source)).toEqual({
+        pools: [{ name: 'main', hosts: [{ host: 'a' }] }, { name: 'replica' }],
+      });
+    });
+
+    test('should parse arrays and inline tables', () => {
+      const source = [
+        'tags = ["a", \'b\', 1]',
+        'options = { ssl = true, pool.max = 10, hosts = ["x", "y"] }',
+        'empty = {}',
+        'multi = [',
+        '  1, # one',
+        '  2,',
+        ']',
+      ].join('\n');
+
+      expect(parse(source)).toEqual({
+        tags: ['a', 'b', 1],
+        options: { ssl: true, pool: { max: 10 }, hosts: ['x', 'y'] },
+        empty: {},
+        multi: [1, 2],
+      });
+    });
+
+    test('should ignore comments and blank lines', () => {
+      const source = [
+        '# Database config',
+        '',
+        'name = "main" # inline comment',
+        '  # indented comment',
+        'port = 1',
+      ].join('\r\n');
+
+      expect(parse(source)).toEqual({ name: 'main', port: 1 });
+      expect(parse('')).toEqual({});
+    });
+
+    test('should throw ParseError with the line and column', () => {
+      const errors: Array<[string, string, number, number]> = [
+        ['a = 1\na = 2', 'Duplicate key "a"', 2, 1],
+        ['[a]\n[a]', 'Table "a" is already defined', 2, 1],
+        ['a = { b = 1 }\na.c = 2', 'Cannot redefine "a"', 2, 1],
+        ['a = [1]\n[[a]]', 'Cannot redefine "a" as an array of tables', 2, 1],
+        ['a = "open', 'Unterminated string', 1, 5],
+        ['a = [1, 2', 'Unterminated array', 1, 5],
+        ['a = { b = 1,}', 'Expected a key', 1, 13],
+        ['a = 01', 'Invalid value', 1, 5],
+        ['a = 1979-02-30', 'Invalid date "1979-02-30"', 1, 5],
+        ['a = "\\q"', 'Invalid escape sequence', 1, 6],
+        ['a = 1 b = 2', 'Expected the end of the line', 1, 7],
+        ['a 1', 'Expected "="', 1, 3],
+      ];
+
+      errors.forEach(([source, message, line, column]) => {
+        try {
+          parse(source);
+          throw new Error(`Expected ${JSON.stringify(source)} to fail`);
+        } catch (error) {
+          expect(error).toBeInstanceOf(ParseError);
+          expect(error).toMatchObject({ message, line, column });
+        }
+      });
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { parse } from '../src/yaml';
+import { ParseError } from '../src/utils';
+
+describe('yaml', () => {
+  describe('parse', () => {
+    test('should parse mappings with typed scalars', () => {
+      const source = [
+        'name: main',
+        'port: 3306',
+        'ratio: 1.5',
+        'debug: true',
+        'host: null',
+        'empty: ~',
+        'hex: 0x1F',
+        'octal: 0o17',
+        'max: .inf',
+        'time: 12:30',
+        'url: http://localhost/db#main',
+      ].join('\n');
+
+      expect(parse(source)).toEqual({
+        name: 'main',
+        port: 3306,
+        ratio: 1.5,
+        debug: true,
+        host: null,
+        empty: null,
+        hex: 31,
+        octal: 15,
+        max: Infinity,
+        time: '12:30',
+        url: 'http://localhost/db#main',
+      });
+    });
+
+    test('should parse nested mappings and sequences', () => {
+      const source = [
+        'paths:',
+        '  models: src/models',
+        '  seeders: src/seeders',
+        'hosts:',
+        '  - a',
+        '  - b',
+        'pools:',
+        '- name: main',
+        '  port: 1',
+        '- - x',
+        '  - y',
+      ].join('\n');
+
+      expect(parse(source)).toEqual({
+        paths: { models: 'src/models', seeders: 'src/seeders' },
+        hosts: ['a', 'b'],
+        pools: [{ name: 'main', port: 1 }, ['x', 'y']],
+      });
+    });
+
+    test('should parse quoted strings', () => {
+      const source = [
+        'double: "tab\\there \\u00e9 # not a comment"',
+        "single: 'it''s'",
+        '"quoted key": 1',
+      ].join('\n');
+
+      expect(parse(source)).toEqual({
+        double: 'tab\there é # not a comment',
+        single: "it's",
+        'quoted key': 1,
+      });
+    });
+
+    test('should parse flow collections', () => {
+      const source = [
+        'tags: [a, "b c", 1]',
+        'options: { ssl: true, hosts: [x, y] }',
+        'multi: [',
+        '  1, 2,',
+        ']',
+      ].join('\n');
+
+      expect(parse(source)).toEqual({
+        tags: ['a', 'b c', 1],
+        options: { ssl: true, hosts: ['x', 'y'] },
+        multi: [1, 2],
+      });
+    });
+
+    test('should parse literal and folded block scalars', () => {
+      const source = [
+        'literal: |',
+        '  line one',
+        '  line two',
+        'folded: >',
+        '  folded',
+        '  text',
+        '',
+        '  new paragraph',
+        'strip: |-',
+        '  no newline',
+        'keep: |+',
+        '  keep',
+        '',
+        'end: 1',
+      ].join('\n');
+
+      expect(parse(source)).toEqual({
+        literal: 'line one\nline two\n',
+        folded: 'folded text\nnew paragraph\n',
+        strip: 'no newline',
+        keep: 'keep\n\n',
+        end: 1,
+      });
+    });
+
+    test('should parse multi-line plain scalars', () => {
+      expect(parse('text: a long\n  plain text\n')).toEqual({
+        text: 'a long plain text',
+      });
+    });
+
+    test('should ignore comments and document markers', () => {
+      const source = [
+        '# Database config',
+        '---',
+        'name: main # inline comment',
+        '',
+        '# another comment',
+        'port: 1',
+        '...',
+      ].join('\n');
+
+      expect(parse(source)).toEqual({ name: 'main', port: 1 });
+    });
+
+    test('should parse empty documents and values as null', () => {
+      expect(parse('')).toBeNull();
+      expect(parse('# comment only')).toBeNull();
+      expect(parse('empty:\nother: 1')).toEqual({ empty: null, other: 1 });
+    });
+
+    test('should throw ParseError with the line and column', () => {
+      const errors: Array<[string, string, number, number]> = [
+        ['a: 1\n  b: 2', 'Unexpected indentation', 2, 3],
+        ['a: 1\na: 2', 'Duplicate key "a"', 2, 1],
+        ['a: "open', 'Unterminated string', 1, 4],
+        ['a:\n\t- b', 'Tabs are not allowed for indentation', 2, 1],
+        ['a: [1, 2', 'Unterminated flow collection', 1, 4],
+        ['a: [1}', 'Expected "," or "]"', 1, 6],
+        ['a: &anchor 1', 'Anchors, aliases and tags are not supported', 1, 4],
+        ['a: 1\n- b', 'Unexpected content', 2, 1],
+        ['a: 1\n---\nb: 2', 'Multiple documents are not supported', 2, 1],
+      ];
+
+      errors.forEach(([source, message, line, column]) => {
+        try {
+          parse(source);
+          throw new Error(`Expected ${JSON.stringify(source)} to fail`);
+        } catch (error) {
+          expect(error).toBeInstanceOf(ParseError);
+          expect(error).toMatchObject({ message, line, column });
+        }
+      });
+    });
+  });
+});